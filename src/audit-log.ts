@@ -0,0 +1,198 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ErrorCode, errorCodeOf } from './errors';
+import { PRIVATE_FILE_MODE, ensurePrivateDir } from './files';
+import { TokenType, WebexIdentity } from './types';
+
+export type AuditEventType = 'login' | 'refresh' | 'validate' | 'overwrite' | 'logout';
+export const AUDIT_EVENT_TYPES: AuditEventType[] = ['login', 'refresh', 'validate', 'overwrite', 'logout'];
+
+export type AuditSource = 'browser' | 'oauth' | 'service-app' | 'import' | 'refresh';
+
+// One line of audit.jsonl. Tokens never appear in it, only their fingerprints.
+export interface AuditEvent {
+  time: string;
+  event: AuditEventType;
+  profile: string;
+  result: 'success' | 'failure';
+  source: AuditSource | null;
+  fingerprint: string | null;
+  tokenType: TokenType | null;
+  identity: AuditIdentity | null;
+  environment: string | null;
+  // The operating-system account that ran the command
+  user: string;
+  // e.g. the fingerprint of the replacing token, or the revocation outcome
+  detail?: string;
+  error?: { code: ErrorCode; message: string };
+}
+
+export interface AuditIdentity {
+  id: string;
+  displayName: string;
+  email: string | null;
+  orgId: string;
+}
+
+// What callers record; the log adds the time, the user and the result, and fingerprints the token
+export interface AuditEntry {
+  event: AuditEventType;
+  profile: string;
+  source?: AuditSource;
+  token?: string;
+  tokenType?: TokenType;
+  identity?: WebexIdentity;
+  environment?: string;
+  detail?: string;
+  // Marks the entry as a failure
+  error?: any;
+}
+
+export interface AuditFilter {
+  profile?: string;
+  event?: AuditEventType;
+  // The most recent entries only
+  limit?: number;
+}
+
+export interface AuditLogOptions {
+  // audit.jsonl is rotated once it would grow past this size
+  maxBytes?: number;
+  // Rotated files kept besides the current one: audit.1.jsonl is the newest
+  maxFiles?: number;
+}
+
+const AUDIT_FILE = 'audit.jsonl';
+const DEFAULT_MAX_BYTES = 1024 * 1024;
+const DEFAULT_MAX_FILES = 5;
+
+// Identifies a token in the log without revealing it; the same token always has the same fingerprint
+export function tokenFingerprint(token: string): string {
+  return `sha256:${crypto.createHash('sha256').update(token).digest('hex').substring(0, 16)}`;
+}
+
+// Append-only record of how the tokens under a config directory were obtained, refreshed,
+// validated, replaced and removed. Entries are never edited; old ones age out by rotation.
+export class AuditLog {
+  readonly path: string;
+  private maxBytes: number;
+  private maxFiles: number;
+
+  constructor(readonly configDir: string, options: AuditLogOptions = {}) {
+    this.path = path.join(configDir, AUDIT_FILE);
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.maxFiles = options.maxFiles ?? DEFAULT_MAX_FILES;
+  }
+
+  record(entry: AuditEntry): AuditEvent {
+    const event: AuditEvent = {
+      time: new Date().toISOString(),
+      event: entry.event,
+      profile: entry.profile,
+      result: entry.error ? 'failure' : 'success',
+      source: entry.source || null,
+      fingerprint: entry.token ? tokenFingerprint(entry.token) : null,
+      tokenType: entry.tokenType || null,
+      identity: entry.identity ? toAuditIdentity(entry.identity) : null,
+      environment: entry.environment || null,
+      user: currentUser()
+    };
+    if (entry.detail) {
+      event.detail = entry.detail;
+    }
+    if (entry.error) {
+      event.error = { code: errorCodeOf(entry.error), message: entry.error.message };
+    }
+
+    const line = JSON.stringify(event) + '\n';
+    ensurePrivateDir(this.configDir);
+    this.rotateIfNeeded(Buffer.byteLength(line));
+    // O_APPEND keeps lines from several processes, e.g. serve and the CLI, whole
+    fs.appendFileSync(this.path, line, { mode: PRIVATE_FILE_MODE });
+    return event;
+  }
+
+  // Oldest first, across the rotated files; lines that cannot be parsed are skipped
+  read(filter: AuditFilter = {}): AuditEvent[] {
+    const events: AuditEvent[] = [];
+    for (const file of this.files().reverse()) {
+      let content: string;
+      try {
+        content = fs.readFileSync(file, 'utf8');
+      } catch {
+        continue;
+      }
+      for (const line of content.split('\n')) {
+        if (!line.trim()) {
+          continue;
+        }
+        try {
+          events.push(JSON.parse(line));
+        } catch {
+          // A line cut short by a crash; the rest of the file is still good
+        }
+      }
+    }
+
+    const matching = events.filter(event =>
+      (!filter.profile || event.profile === filter.profile) && (!filter.event || event.event === filter.event)
+    );
+    return filter.limit && filter.limit > 0 ? matching.slice(-filter.limit) : matching;
+  }
+
+  // The current file first, then audit.1.jsonl, audit.2.jsonl, ...
+  files(): string[] {
+    const files = [this.path];
+    for (let index = 1; index <= this.maxFiles; index++) {
+      files.push(this.rotatedPath(index));
+    }
+    return files.filter(file => fs.existsSync(file));
+  }
+
+  private rotatedPath(index: number): string {
+    return path.join(this.configDir, AUDIT_FILE.replace(/\.jsonl$/, `.${index}.jsonl`));
+  }
+
+  private rotateIfNeeded(incoming: number): void {
+    let size: number;
+    try {
+      size = fs.statSync(this.path).size;
+    } catch {
+      return;
+    }
+    if (size === 0 || size + incoming <= this.maxBytes) {
+      return;
+    }
+
+    fs.rmSync(this.rotatedPath(this.maxFiles), { force: true });
+    for (let index = this.maxFiles - 1; index >= 1; index--) {
+      if (fs.existsSync(this.rotatedPath(index))) {
+        fs.renameSync(this.rotatedPath(index), this.rotatedPath(index + 1));
+      }
+    }
+    if (this.maxFiles > 0) {
+      fs.renameSync(this.path, this.rotatedPath(1));
+    } else {
+      fs.rmSync(this.path, { force: true });
+    }
+  }
+}
+
+function toAuditIdentity(identity: WebexIdentity): AuditIdentity {
+  return {
+    id: identity.id,
+    displayName: identity.displayName,
+    email: identity.emails?.[0] || null,
+    orgId: identity.orgId
+  };
+}
+
+function currentUser(): string {
+  try {
+    return os.userInfo().username;
+  } catch {
+    return process.env.USER || process.env.USERNAME || 'unknown';
+  }
+}
@@ -0,0 +1,507 @@
+import * as os from 'os';
+import * as path from 'path';
+import { Command, Option } from 'commander';
+
+export type CompletionShell = 'zsh' | 'bash' | 'fish' | 'powershell';
+
+export const COMPLETION_SHELLS: CompletionShell[] = ['zsh', 'bash', 'fish', 'powershell'];
+
+// How the value of an option or positional argument is completed
+type ValueKind = { kind: 'choices'; values: string[] } | { kind: 'files' } | { kind: 'profiles' };
+
+interface CompletionOption {
+  flags: string[];
+  description: string;
+  takesValue: boolean;
+  value?: ValueKind;
+}
+
+interface CompletionNode {
+  // Canonical command path, e.g. "" for the program and "profiles use" for a subcommand
+  path: string;
+  commands: { name: string; aliases: string[]; description: string }[];
+  options: CompletionOption[];
+  positionals: (ValueKind | undefined)[];
+}
+
+const HELP_OPTION: CompletionOption = { flags: ['-h', '--help'], description: 'display help for command', takesValue: false };
+const PROFILES_DIR = '~/.webex-cli/profiles';
+
+function argumentName(flags: string): string | undefined {
+  return flags.match(/[<[]([\w-]+)(\.\.\.)?[>\]]/)?.[1];
+}
+
+// Value hints come from declared choices first, then from the argument's name
+function valueKind(name: string | undefined, choices?: readonly string[]): ValueKind | undefined {
+  if (choices && choices.length > 0) {
+    return { kind: 'choices', values: [...choices] };
+  }
+  if (name === 'profile' || name === 'name') {
+    return { kind: 'profiles' };
+  }
+  if (name && /file|dir|path/.test(name)) {
+    return { kind: 'files' };
+  }
+  return undefined;
+}
+
+function toCompletionOption(option: Option): CompletionOption {
+  const takesValue = option.required || option.optional;
+  return {
+    flags: [option.short, option.long].filter((flag): flag is string => !!flag),
+    description: option.description,
+    takesValue,
+    value: takesValue ? valueKind(argumentName(option.flags), option.argChoices) : undefined
+  };
+}
+
+// Walks the Commander tree; options of the program are accepted after any subcommand as well
+export function collectCompletionNodes(program: Command): CompletionNode[] {
+  const globalOptions = program.options.map(toCompletionOption);
+  const nodes: CompletionNode[] = [];
+
+  const visit = (command: Command, commandPath: string, inherited: CompletionOption[]) => {
+    const own = command === program ? [] : command.options.map(toCompletionOption);
+    const subcommands = command.commands.map(sub => ({ name: sub.name(), aliases: sub.aliases(), description: sub.description() }));
+    if (subcommands.length > 0) {
+      subcommands.push({ name: 'help', aliases: [], description: 'display help for command', });
+    }
+
+    nodes.push({
+      path: commandPath,
+      commands: subcommands,
+      options: [...own, ...inherited, HELP_OPTION],
+      positionals: command.registeredArguments.map(argument => valueKind(argument.name(), argument.argChoices))
+    });
+    if (subcommands.length > 0) {
+      nodes.push({
+        path: `${commandPath} help`.trim(),
+        commands: [],
+        options: [...inherited, HELP_OPTION],
+        positionals: [{ kind: 'choices', values: command.commands.map(sub => sub.name()) }]
+      });
+    }
+
+    for (const sub of command.commands) {
+      visit(sub, `${commandPath} ${sub.name()}`.trim(), inherited);
+    }
+  };
+
+  visit(program, '', globalOptions);
+  return nodes;
+}
+
+export function generateCompletion(program: Command, shell: CompletionShell): string {
+  const nodes = collectCompletionNodes(program);
+  const name = program.name();
+  switch (shell) {
+    case 'bash':
+      return bashScript(name, nodes);
+    case 'zsh':
+      return zshScript(name, nodes);
+    case 'fish':
+      return fishScript(name, nodes);
+    case 'powershell':
+      return powershellScript(name, nodes);
+  }
+}
+
+// Where each shell picks up completion files without further configuration, or as close as it gets
+export function completionInstallPath(shell: CompletionShell, name: string, env: NodeJS.ProcessEnv = process.env): string {
+  const home = os.homedir();
+  switch (shell) {
+    case 'bash':
+      return path.join(env.XDG_DATA_HOME || path.join(home, '.local', 'share'), 'bash-completion', 'completions', name);
+    case 'zsh':
+      return path.join(home, '.zfunc', `_${name}`);
+    case 'fish':
+      return path.join(env.XDG_CONFIG_HOME || path.join(home, '.config'), 'fish', 'completions', `${name}.fish`);
+    case 'powershell':
+      return process.platform === 'win32'
+        ? path.join(home, 'Documents', 'PowerShell', `${name}-completion.ps1`)
+        : path.join(env.XDG_CONFIG_HOME || path.join(home, '.config'), 'powershell', `${name}-completion.ps1`);
+  }
+}
+
+export function completionInstallHint(shell: CompletionShell, installPath: string): string {
+  switch (shell) {
+    case 'bash':
+      return 'Start a new shell; bash-completion loads it on demand';
+    case 'zsh':
+      return `Add "fpath=(${path.dirname(installPath)} $fpath)" before "compinit" in ~/.zshrc, then start a new shell`;
+    case 'fish':
+      return 'Start a new shell; fish loads it on demand';
+    case 'powershell':
+      return `Add ". ${installPath}" to your $PROFILE`;
+  }
+}
+
+function functionName(name: string): string {
+  return `_${name.replace(/[^A-Za-z0-9]/g, '_')}`;
+}
+
+function words(values: string[]): string {
+  return values.join(' ');
+}
+
+// Every (path, word) pair that descends into a subcommand, aliases included
+function transitions(nodes: CompletionNode[]): { from: string; word: string; to: string }[] {
+  return nodes.flatMap(node => node.commands.flatMap(command =>
+    [command.name, ...command.aliases].map(word => ({ from: node.path, word, to: `${node.path} ${command.name}`.trim() }))
+  ));
+}
+
+// Value completions keyed by option flag or by "#<index>" for positionals
+function valueEntries(node: CompletionNode): { keys: string[]; value: ValueKind }[] {
+  const entries: { keys: string[]; value: ValueKind }[] = [];
+  for (const option of node.options) {
+    if (option.value) {
+      entries.push({ keys: option.flags, value: option.value });
+    }
+  }
+  node.positionals.forEach((value, index) => {
+    if (value) {
+      entries.push({ keys: [`#${index}`], value });
+    }
+  });
+  return entries;
+}
+
+function valuedFlags(node: CompletionNode): string[] {
+  return node.options.filter(option => option.takesValue).flatMap(option => option.flags);
+}
+
+function shellWords(value: ValueKind): string {
+  if (value.kind === 'choices') {
+    return `compgen -W "${words(value.values)}" -- "$cur"`;
+  }
+  if (value.kind === 'profiles') {
+    return `compgen -W "$(ls ${PROFILES_DIR} 2>/dev/null)" -- "$cur"`;
+  }
+  return 'compgen -f -- "$cur"';
+}
+
+function bashScript(name: string, nodes: CompletionNode[]): string {
+  const fn = functionName(name);
+  const lines = [
+    `# ${name} bash completion - generated by "${name} completion --shell bash"`,
+    '',
+    `${fn}_spec() {`,
+    '  case "$1" in'
+  ];
+  for (const node of nodes) {
+    lines.push(`    "${node.path}")`);
+    lines.push(`      commands="${words(node.commands.flatMap(command => [command.name, ...command.aliases]))}"`);
+    lines.push(`      options="${words(node.options.flatMap(option => option.flags))}"`);
+    lines.push(`      valued="${words(valuedFlags(node))}" ;;`);
+  }
+  lines.push('  esac', '}', '', `${fn}_next() {`, '  case "$1|$2" in');
+  for (const { from, word, to } of transitions(nodes)) {
+    lines.push(`    "${from}|${word}") echo "${to}" ;;`);
+  }
+  lines.push('  esac', '}', '', `${fn}_values() {`, '  case "$1|$2" in');
+  for (const node of nodes) {
+    for (const { keys, value } of valueEntries(node)) {
+      lines.push(`    ${keys.map(key => `"${node.path}|${key}"`).join('|')}) COMPREPLY=( $(${shellWords(value)}) ) ;;`);
+    }
+  }
+  lines.push(
+    '  esac',
+    '}',
+    '',
+    `${fn}() {`,
+    '  local cur="${COMP_WORDS[COMP_CWORD]}" prev="${COMP_WORDS[COMP_CWORD-1]}"',
+    '  local cmd_path="" positional=0 next word i commands options valued',
+    '  COMPREPLY=()',
+    '  for ((i = 1; i < COMP_CWORD; i++)); do',
+    '    word="${COMP_WORDS[i]}"',
+    `    ${fn}_spec "$cmd_path"`,
+    '    if [[ "$word" == -* ]]; then',
+    '      [[ " $valued " == *" $word "* ]] && ((i++))',
+    `    elif next="$(${fn}_next "$cmd_path" "$word")" && [[ -n "$next" ]]; then`,
+    '      cmd_path="$next"',
+    '      positional=0',
+    '    else',
+    '      ((positional++))',
+    '    fi',
+    '  done',
+    '',
+    `  ${fn}_spec "$cmd_path"`,
+    '  if [[ " $valued " == *" $prev "* ]]; then',
+    `    ${fn}_values "$cmd_path" "$prev"`,
+    '  elif [[ "$cur" == -* ]]; then',
+    '    COMPREPLY=( $(compgen -W "$options" -- "$cur") )',
+    '  elif [[ -n "$commands" ]]; then',
+    '    COMPREPLY=( $(compgen -W "$commands" -- "$cur") )',
+    '  else',
+    `    ${fn}_values "$cmd_path" "#$positional"`,
+    '  fi',
+    '}',
+    '',
+    `complete -F ${fn} ${name}`
+  );
+  return lines.join('\n') + '\n';
+}
+
+// _describe entries are "name:description"; a colon inside the name must be escaped
+function zshEntry(word: string, description: string): string {
+  return `'${`${word.replace(/:/g, '\\:')}:${description}`.replace(/'/g, `'\\''`)}'`;
+}
+
+function zshValues(value: ValueKind): string {
+  if (value.kind === 'choices') {
+    return `compadd -- ${value.values.join(' ')}`;
+  }
+  if (value.kind === 'profiles') {
+    return `compadd -- \${(f)"$(ls ${PROFILES_DIR} 2>/dev/null)"}`;
+  }
+  return '_files';
+}
+
+function zshScript(name: string, nodes: CompletionNode[]): string {
+  const fn = functionName(name);
+  const lines = [
+    `#compdef ${name}`,
+    `# ${name} zsh completion - generated by "${name} completion --shell zsh"`,
+    '',
+    `${fn}_spec() {`,
+    '  case "$1" in'
+  ];
+  for (const node of nodes) {
+    const commandEntries = node.commands.flatMap(command =>
+      [command.name, ...command.aliases].map(word => zshEntry(word, command.description))
+    );
+    const optionEntries = node.options.flatMap(option => option.flags.map(flag => zshEntry(flag, option.description)));
+    lines.push(`    "${node.path}")`);
+    lines.push(`      commands=(${commandEntries.join(' ')})`);
+    lines.push(`      options=(${optionEntries.join(' ')})`);
+    lines.push(`      valued=(${valuedFlags(node).join(' ')}) ;;`);
+  }
+  lines.push('  esac', '}', '', `${fn}_next() {`, '  case "$1|$2" in');
+  for (const { from, word, to } of transitions(nodes)) {
+    lines.push(`    "${from}|${word}") echo "${to}" ;;`);
+  }
+  lines.push('  esac', '}', '', `${fn}_values() {`, '  case "$1|$2" in');
+  for (const node of nodes) {
+    for (const { keys, value } of valueEntries(node)) {
+      lines.push(`    ${keys.map(key => `"${node.path}|${key}"`).join('|')}) ${zshValues(value)} ;;`);
+    }
+  }
+  lines.push(
+    '  esac',
+    '}',
+    '',
+    `${fn}() {`,
+    '  local cmd_path="" positional=0 next word i skip=0',
+    '  local -a commands options valued',
+    '  for ((i = 2; i < CURRENT; i++)); do',
+    '    word="${words[i]}"',
+    '    if (( skip )); then skip=0; continue; fi',
+    `    ${fn}_spec "$cmd_path"`,
+    '    if [[ "$word" == -* ]]; then',
+    '      (( ${valued[(Ie)$word]} )) && skip=1',
+    `    elif next="$(${fn}_next "$cmd_path" "$word")" && [[ -n "$next" ]]; then`,
+    '      cmd_path="$next"',
+    '      positional=0',
+    '    else',
+    '      ((positional++))',
+    '    fi',
+    '  done',
+    '',
+    `  ${fn}_spec "$cmd_path"`,
+    '  if (( ${valued[(Ie)${words[CURRENT-1]}]} )); then',
+    `    ${fn}_values "$cmd_path" "\${words[CURRENT-1]}"`,
+    '  elif [[ "${words[CURRENT]}" == -* ]]; then',
+    "    _describe 'option' options",
+    '  elif (( ${#commands} )); then',
+    "    _describe 'command' commands",
+    '  else',
+    `    ${fn}_values "$cmd_path" "#$positional"`,
+    '  fi',
+    '}',
+    '',
+    `${fn} "$@"`
+  );
+  return lines.join('\n') + '\n';
+}
+
+function fishQuote(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function fishScript(name: string, nodes: CompletionNode[]): string {
+  const fn = `__${name.replace(/[^A-Za-z0-9]/g, '_')}`;
+  const lines = [
+    `# ${name} fish completion - generated by "${name} completion --shell fish"`,
+    '',
+    `function ${fn}_valued`,
+    '    switch "$argv[1]"'
+  ];
+  for (const node of nodes) {
+    const valued = valuedFlags(node);
+    if (valued.length > 0) {
+      lines.push(`        case ${fishQuote(node.path)}`, `            echo ${valued.join(' ')}`);
+    }
+  }
+  lines.push('    end', 'end', '', `function ${fn}_next`, '    switch "$argv[1]|$argv[2]"');
+  for (const { from, word, to } of transitions(nodes)) {
+    lines.push(`        case ${fishQuote(`${from}|${word}`)}`, `            echo ${fishQuote(to)}`);
+  }
+  lines.push(
+    '    end',
+    'end',
+    '',
+    '# Prints the canonical subcommand path and, after a tab, the number of positionals typed so far',
+    `function ${fn}_state`,
+    '    set -l tokens (commandline -opc)',
+    '    set -l cmd_path ""',
+    '    set -l positional 0',
+    '    set -l skip 0',
+    '    for token in $tokens[2..-1]',
+    '        if test $skip = 1',
+    '            set skip 0',
+    '        else if string match -q -- "-*" $token',
+    `            contains -- $token (string split " " (${fn}_valued "$cmd_path")); and set skip 1`,
+    `        else if set -l next (${fn}_next "$cmd_path" $token)`,
+    '            set cmd_path $next',
+    '            set positional 0',
+    '        else',
+    '            set positional (math $positional + 1)',
+    '        end',
+    '    end',
+    '    printf "%s\\t%s\\n" $cmd_path $positional',
+    'end',
+    '',
+    `function ${fn}_at`,
+    `    set -l state (string split \\t (${fn}_state))`,
+    '    test "$state[1]" = "$argv[1]"',
+    '    and begin; test (count $argv) -lt 2; or test "$state[2]" = "$argv[2]"; end',
+    'end',
+    '',
+    `complete -c ${name} -f`
+  );
+
+  for (const node of nodes) {
+    const at = `"${fn}_at ${fishQuote(node.path)}"`;
+    for (const command of node.commands) {
+      for (const word of [command.name, ...command.aliases]) {
+        lines.push(`complete -c ${name} -n ${at} -a ${fishQuote(word)} -d ${fishQuote(command.description)}`);
+      }
+    }
+    for (const option of node.options) {
+      const flags = option.flags.map(flag => flag.startsWith('--') ? `-l ${flag.slice(2)}` : `-s ${flag.slice(1)}`).join(' ');
+      let value = '';
+      if (option.value?.kind === 'choices') {
+        value = ` -x -a ${fishQuote(option.value.values.join(' '))}`;
+      } else if (option.value?.kind === 'profiles') {
+        value = ` -x -a '(ls ${PROFILES_DIR} 2>/dev/null)'`;
+      } else if (option.value?.kind === 'files') {
+        value = ' -r -F';
+      } else if (option.takesValue) {
+        value = ' -x';
+      }
+      lines.push(`complete -c ${name} -n ${at} ${flags}${value} -d ${fishQuote(option.description)}`);
+    }
+    node.positionals.forEach((value, index) => {
+      const positionalAt = `"${fn}_at ${fishQuote(node.path)} ${index}"`;
+      if (value?.kind === 'choices') {
+        lines.push(`complete -c ${name} -n ${positionalAt} -a ${fishQuote(value.values.join(' '))}`);
+      } else if (value?.kind === 'profiles') {
+        lines.push(`complete -c ${name} -n ${positionalAt} -a '(ls ${PROFILES_DIR} 2>/dev/null)'`);
+      } else if (value?.kind === 'files') {
+        lines.push(`complete -c ${name} -n ${positionalAt} -F`);
+      }
+    });
+  }
+  return lines.join('\n') + '\n';
+}
+
+function psQuote(text: string): string {
+  return `'${text.replace(/'/g, "''")}'`;
+}
+
+function psValue(value: ValueKind): string {
+  if (value.kind === 'choices') {
+    return `@{ kind = 'choices'; choices = @(${value.values.map(psQuote).join(', ')}) }`;
+  }
+  return `@{ kind = '${value.kind}' }`;
+}
+
+// Pairs are hashtables rather than nested arrays, which PowerShell would flatten
+function psCandidate(text: string, tip: string): string {
+  return `@{ text = ${psQuote(text)}; tip = ${psQuote(tip)} }`;
+}
+
+function powershellScript(name: string, nodes: CompletionNode[]): string {
+  const lines = [
+    `# ${name} PowerShell completion - generated by "${name} completion --shell powershell"`,
+    '',
+    '$spec = @{'
+  ];
+  for (const node of nodes) {
+    const commands = node.commands.flatMap(command =>
+      [command.name, ...command.aliases].map(word => psCandidate(word, command.description))
+    );
+    const options = node.options.flatMap(option => option.flags.map(flag => psCandidate(flag, option.description)));
+    const values = valueEntries(node).flatMap(({ keys, value }) => keys.map(key => `${psQuote(key)} = ${psValue(value)}`));
+    lines.push(
+      `  ${psQuote(node.path)} = @{`,
+      `    commands = @(${commands.join(', ')})`,
+      `    options = @(${options.join(', ')})`,
+      `    valued = @(${valuedFlags(node).map(psQuote).join(', ')})`,
+      `    completions = @{ ${values.join('; ')} }`,
+      '  }'
+    );
+  }
+  lines.push('}', '', '$next = @{');
+  for (const { from, word, to } of transitions(nodes)) {
+    lines.push(`  ${psQuote(`${from}|${word}`)} = ${psQuote(to)}`);
+  }
+  lines.push(
+    '}',
+    '',
+    `Register-ArgumentCompleter -Native -CommandName ${psQuote(name)} -ScriptBlock {`,
+    '  param($wordToComplete, $commandAst, $cursorPosition)',
+    '  $tokens = @($commandAst.CommandElements | Select-Object -Skip 1 | ForEach-Object { $_.ToString() })',
+    "  if ($wordToComplete -ne '' -and $tokens.Count -gt 0) { $tokens = @($tokens | Select-Object -SkipLast 1) }",
+    "  $path = ''",
+    '  $positional = 0',
+    '  $previous = $null',
+    '  for ($i = 0; $i -lt $tokens.Count; $i++) {',
+    '    $token = $tokens[$i]',
+    "    if ($token.StartsWith('-')) {",
+    '      if ($spec[$path].valued -contains $token) { $i++ }',
+    "    } elseif ($next.ContainsKey(\"$path|$token\")) {",
+    "      $path = $next[\"$path|$token\"]",
+    '      $positional = 0',
+    '    } else {',
+    '      $positional++',
+    '    }',
+    '  }',
+    '  if ($tokens.Count -gt 0) { $previous = $tokens[-1] }',
+    '  $node = $spec[$path]',
+    '  $candidates = @()',
+    '  $value = $null',
+    '  if ($previous -and $node.valued -contains $previous) {',
+    '    $value = $node.completions[$previous]',
+    "  } elseif ($wordToComplete.StartsWith('-')) {",
+    '    $candidates = $node.options',
+    '  } elseif ($node.commands.Count -gt 0) {',
+    '    $candidates = $node.commands',
+    '  } else {',
+    "    $value = $node.completions[\"#$positional\"]",
+    '  }',
+    '  if ($value) {',
+    '    switch ($value.kind) {',
+    "      'choices' { $candidates = $value.choices | ForEach-Object { @{ text = $_; tip = $_ } } }",
+    `      'profiles' { $candidates = Get-ChildItem -Directory (Join-Path $HOME '.webex-cli/profiles') -ErrorAction SilentlyContinue | ForEach-Object { @{ text = $_.Name; tip = $_.Name } } }`,
+    "      'files' { $candidates = Get-ChildItem \"$wordToComplete*\" -ErrorAction SilentlyContinue | ForEach-Object { @{ text = $_.Name; tip = $_.FullName } } }",
+    '    }',
+    '  }',
+    '  $candidates | Where-Object { $_.text -like "$wordToComplete*" } | ForEach-Object {',
+    "    [System.Management.Automation.CompletionResult]::new($_.text, $_.text, 'ParameterValue', $_.tip)",
+    '  }',
+    '}'
+  );
+  return lines.join('\n') + '\n';
+}
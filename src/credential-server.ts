@@ -0,0 +1,360 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import axios from 'axios';
+import { ErrorCode, WebexAuthError, errorCodeOf, errorForCode } from './errors';
+import { ensurePrivateDir, writeFileAtomic } from './files';
+import { Logger, silentLogger } from './logger';
+import { toIsoOrNull } from './output';
+import { StoredToken, TokenResponse, WebexIdentity } from './types';
+
+// The part of TokenManager the server needs; injected so this module does not depend on the CLI
+export interface CredentialSource {
+  readonly profile: string;
+  readStoredToken(): StoredToken | null;
+  getValidAccessToken(marginSeconds?: number): Promise<string>;
+  refreshToken(): Promise<TokenResponse>;
+  whoami(): Promise<WebexIdentity>;
+}
+
+export interface CredentialServerOptions {
+  sourceFor: (profile?: string) => CredentialSource;
+  configDir: string;
+  // A Unix socket path, or a port on 127.0.0.1 when no socket is given
+  socketPath?: string;
+  port?: number;
+  refreshMarginSeconds: number;
+  logger?: Logger;
+}
+
+// Written next to the profiles while the server runs, so clients find it without configuration
+export interface ServeInfo {
+  pid: number;
+  socketPath?: string;
+  url?: string;
+  secret: string;
+}
+
+export interface ServedToken {
+  profile: string;
+  accessToken: string;
+  expiresAt: string | null;
+}
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+  loadedAt: number;
+}
+
+interface PendingLoad {
+  loading: Promise<CachedToken>;
+  // A refresh asked for by a client, rather than a read of the store
+  forced: boolean;
+}
+
+const SERVE_INFO_FILE = 'serve.json';
+const SECRET_HEADER = 'x-webex-auth-secret';
+const REFRESH_CHECK_INTERVAL = 60000;
+// Re-read the store this often, so a login in another terminal reaches the clients
+const CACHE_TTL = 60000;
+
+const HTTP_STATUS: Partial<Record<ErrorCode, number>> = {
+  usage: 400,
+  no_token: 404,
+  token_expired: 409,
+  refresh_rejected: 409,
+  refresh_failed: 409,
+  validation_failed: 401,
+  network_failure: 502,
+  timeout: 504
+};
+
+export function defaultSocketPath(configDir: string): string {
+  return path.join(configDir, 'serve.sock');
+}
+
+export function serveInfoPath(configDir: string): string {
+  return path.join(configDir, SERVE_INFO_FILE);
+}
+
+// One process owns refreshing, so tools that share a profile never race each other for the refresh token
+export class CredentialServer {
+  private server?: http.Server;
+  private info?: ServeInfo;
+  private cache = new Map<string, CachedToken>();
+  private pending = new Map<string, PendingLoad>();
+  private timer?: NodeJS.Timeout;
+  private readonly secret = crypto.randomBytes(32).toString('hex');
+  private logger: Logger;
+
+  constructor(private options: CredentialServerOptions) {
+    this.logger = options.logger || silentLogger;
+  }
+
+  async start(): Promise<ServeInfo> {
+    const server = http.createServer((request, response) => {
+      this.handle(request, response).catch(error => this.sendError(response, error));
+    });
+
+    if (this.options.socketPath) {
+      await this.removeStaleSocket(this.options.socketPath);
+      ensurePrivateDir(path.dirname(this.options.socketPath));
+      // The socket is owner-only from the moment it exists
+      const previousMask = process.umask(0o177);
+      try {
+        await listen(server, () => server.listen(this.options.socketPath));
+      } finally {
+        process.umask(previousMask);
+      }
+      fs.chmodSync(this.options.socketPath, 0o600);
+      this.info = { pid: process.pid, socketPath: this.options.socketPath, secret: this.secret };
+    } else {
+      await listen(server, () => server.listen(this.options.port ?? 0, '127.0.0.1'));
+      const { port } = server.address() as net.AddressInfo;
+      this.info = { pid: process.pid, url: `http://127.0.0.1:${port}`, secret: this.secret };
+    }
+
+    this.server = server;
+    writeFileAtomic(serveInfoPath(this.options.configDir), JSON.stringify(this.info, null, 2));
+    this.timer = setInterval(() => this.refreshDueTokens(), REFRESH_CHECK_INTERVAL);
+    return this.info;
+  }
+
+  // Synchronous, so it can also run from a process 'exit' handler
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+    this.server?.close();
+    if (this.info?.socketPath) {
+      fs.rmSync(this.info.socketPath, { force: true });
+    }
+    const infoPath = serveInfoPath(this.options.configDir);
+    if (this.info && readServeInfo(this.options.configDir)?.pid === process.pid) {
+      fs.rmSync(infoPath, { force: true });
+    }
+    this.info = undefined;
+  }
+
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    if (!this.isAuthorized(request)) {
+      this.send(response, 401, { ok: false, error: { code: 'usage', message: `Missing or wrong ${SECRET_HEADER} header` } });
+      return;
+    }
+
+    const url = new URL(request.url || '/', 'http://localhost');
+    const route = `${request.method} ${url.pathname}`;
+    const profile = url.searchParams.get('profile') || undefined;
+
+    if (route === 'GET /token') {
+      this.send(response, 200, { ok: true, ...await this.token(profile) });
+    } else if (route === 'GET /whoami') {
+      const source = this.sourceFor(profile);
+      this.send(response, 200, { ok: true, profile: source.profile, identity: await source.whoami() });
+    } else if (route === 'POST /refresh') {
+      this.send(response, 200, { ok: true, ...await this.refresh(profile) });
+    } else {
+      this.send(response, 404, { ok: false, error: { code: 'usage', message: `Unknown endpoint ${route} - use GET /token, GET /whoami or POST /refresh` } });
+    }
+  }
+
+  private isAuthorized(request: http.IncomingMessage): boolean {
+    // On the socket the file permissions already restrict callers to this user
+    if (this.info?.socketPath) {
+      return true;
+    }
+    const given = Buffer.from(String(request.headers[SECRET_HEADER] || ''));
+    const expected = Buffer.from(this.secret);
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+  }
+
+  private sourceFor(profile?: string): CredentialSource {
+    try {
+      return this.options.sourceFor(profile);
+    } catch (error: any) {
+      throw error instanceof WebexAuthError ? error : new WebexAuthError('usage', error.message);
+    }
+  }
+
+  private async token(profile?: string): Promise<ServedToken> {
+    const source = this.sourceFor(profile);
+    const cached = this.cache.get(source.profile);
+    const entry = cached && !this.isDue(cached) ? cached : await this.load(source);
+    return { profile: source.profile, accessToken: entry.accessToken, expiresAt: toIsoOrNull(entry.expiresAt) };
+  }
+
+  private async refresh(profile?: string): Promise<ServedToken> {
+    const source = this.sourceFor(profile);
+    const entry = await this.load(source, true);
+    this.logger.info(`🔄 Refreshed the token of profile "${source.profile}" on request`);
+    return { profile: source.profile, accessToken: entry.accessToken, expiresAt: toIsoOrNull(entry.expiresAt) };
+  }
+
+  private isDue(entry: CachedToken): boolean {
+    const margin = this.options.refreshMarginSeconds * 1000;
+    return Date.now() - entry.loadedAt > CACHE_TTL || (entry.expiresAt > 0 && entry.expiresAt - margin <= Date.now());
+  }
+
+  // Concurrent requests for one profile share a single store read or refresh. A refresh asked
+  // for while a read is running waits for it, as the read may return the token to be replaced.
+  private load(source: CredentialSource, force: boolean = false): Promise<CachedToken> {
+    const running = this.pending.get(source.profile);
+    if (running && (running.forced || !force)) {
+      return running.loading;
+    }
+
+    const previous = running ? running.loading.catch(() => undefined) : Promise.resolve();
+    const loading: Promise<CachedToken> = previous.then(async () => {
+      const accessToken = force
+        ? (await source.refreshToken()).access_token
+        : await source.getValidAccessToken(this.options.refreshMarginSeconds);
+      const entry: CachedToken = { accessToken, expiresAt: source.readStoredToken()?.expiresAt || 0, loadedAt: Date.now() };
+      this.cache.set(source.profile, entry);
+      return entry;
+    }).finally(() => {
+      if (this.pending.get(source.profile)?.loading === loading) {
+        this.pending.delete(source.profile);
+      }
+    });
+    this.pending.set(source.profile, { loading, forced: force });
+    return loading;
+  }
+
+  // Keeps every token a client asked for fresh, so requests rarely wait for a refresh
+  private refreshDueTokens(): void {
+    for (const [profile, entry] of this.cache) {
+      if (!this.isDue(entry)) {
+        continue;
+      }
+      // sourceFor runs inside the chain: a throw there, e.g. from a broken config.json, must not end the server
+      Promise.resolve().then(() => this.load(this.sourceFor(profile))).catch((error: any) => {
+        // Keep serving nothing stale: the next request reports the error itself
+        this.cache.delete(profile);
+        this.logger.warn(`⚠️  Could not refresh the token of profile "${profile}": ${error.message}`);
+      });
+    }
+  }
+
+  private async removeStaleSocket(socketPath: string): Promise<void> {
+    if (!fs.existsSync(socketPath)) {
+      return;
+    }
+    const inUse = await new Promise<boolean>(resolve => {
+      const socket = net.connect(socketPath, () => {
+        socket.end();
+        resolve(true);
+      });
+      socket.on('error', () => resolve(false));
+    });
+    if (inUse) {
+      throw new WebexAuthError('usage', `Another webex-auth serve is already listening on ${socketPath}`);
+    }
+    fs.rmSync(socketPath, { force: true });
+  }
+
+  private sendError(response: http.ServerResponse, error: any): void {
+    const code = errorCodeOf(error);
+    this.send(response, HTTP_STATUS[code] || 500, { ok: false, error: { code, message: error.message } });
+  }
+
+  private send(response: http.ServerResponse, status: number, body: Record<string, any>): void {
+    response.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+    response.end(JSON.stringify(body));
+  }
+}
+
+function listen(server: http.Server, start: () => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.once('listening', () => {
+      server.off('error', reject);
+      resolve();
+    });
+    start();
+  });
+}
+
+export function readServeInfo(configDir: string): ServeInfo | null {
+  try {
+    return JSON.parse(fs.readFileSync(serveInfoPath(configDir), 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+export interface CredentialClientOptions {
+  socketPath?: string;
+  url?: string;
+  secret?: string;
+  timeout?: number;
+}
+
+// Talks to a running `webex-auth serve`; failures are rebuilt as the error class of the server's code
+export class CredentialClient {
+  constructor(private options: CredentialClientOptions) {
+    if (!options.socketPath && !options.url) {
+      throw new WebexAuthError('usage', 'CredentialClient needs a socketPath or a url');
+    }
+  }
+
+  // Connects to the server described by serve.json in the config directory
+  static fromConfig(configDir: string = path.join(os.homedir(), '.webex-cli')): CredentialClient {
+    const info = readServeInfo(configDir);
+    if (!info) {
+      throw new WebexAuthError('network_failure', `No webex-auth serve is running (${serveInfoPath(configDir)} not found)`);
+    }
+    return new CredentialClient({ socketPath: info.socketPath, url: info.url, secret: info.secret });
+  }
+
+  async getToken(profile?: string): Promise<string> {
+    return (await this.request<ServedToken>('GET', '/token', profile)).accessToken;
+  }
+
+  async getTokenDetails(profile?: string): Promise<ServedToken> {
+    return this.request<ServedToken>('GET', '/token', profile);
+  }
+
+  async whoami(profile?: string): Promise<WebexIdentity> {
+    return (await this.request<{ identity: WebexIdentity }>('GET', '/whoami', profile)).identity;
+  }
+
+  async refresh(profile?: string): Promise<ServedToken> {
+    return this.request<ServedToken>('POST', '/refresh', profile);
+  }
+
+  private async request<T>(method: 'GET' | 'POST', endpoint: string, profile?: string): Promise<T> {
+    const where = this.options.socketPath || this.options.url;
+    try {
+      const response = await axios.request({
+        method,
+        baseURL: this.options.socketPath ? 'http://localhost' : this.options.url,
+        socketPath: this.options.socketPath,
+        url: endpoint,
+        params: profile ? { profile } : undefined,
+        headers: this.options.secret ? { [SECRET_HEADER]: this.options.secret } : undefined,
+        timeout: this.options.timeout ?? 30000,
+        // The server is on this machine; HTTPS_PROXY must not apply
+        proxy: false,
+        // Error bodies carry the code and message
+        validateStatus: () => true
+      });
+      const body = response.data;
+      if (!body?.ok) {
+        const code: ErrorCode = body?.error?.code || 'error';
+        const message = body?.error?.message || `webex-auth serve answered with HTTP ${response.status}`;
+        throw errorForCode(code, message);
+      }
+      const { ok, ...result } = body;
+      return result as T;
+    } catch (error: any) {
+      if (error instanceof WebexAuthError) {
+        throw error;
+      }
+      throw new WebexAuthError('network_failure', `Could not reach webex-auth serve at ${where}: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Page } from 'puppeteer';
+import { PRIVATE_FILE_MODE, ensurePrivateDir, writeFileAtomic } from './files';
+
+// Enough to tell two tokens apart in a bug report without leaking either
+export function describeToken(token: string): string {
+  return `${token.length} characters, ${token.slice(0, 4)}…${token.slice(-4)}`;
+}
+
+// Records a screenshot, the page HTML and the URL per step into a fresh run directory,
+// so a broken portal flow can be attached to a bug report instead of re-run by hand
+export class FlowDiagnostics {
+  readonly runDir: string;
+  private tracing = false;
+  private screenshots = true;
+
+  constructor(debugDir: string) {
+    this.runDir = path.join(path.resolve(debugDir), new Date().toISOString().replace(/[:.]/g, '-'));
+    ensurePrivateDir(this.runDir);
+  }
+
+  note(message: string): void {
+    fs.appendFileSync(path.join(this.runDir, 'diagnostics.log'), `${new Date().toISOString()} ${message}\n`, { mode: PRIVATE_FILE_MODE });
+  }
+
+  async startTrace(page: Page): Promise<void> {
+    // No screenshots: trace frames cannot be scrubbed once the token dialog is on screen
+    await page.tracing.start({ path: path.join(this.runDir, 'trace.json') });
+    this.tracing = true;
+  }
+
+  async stopTrace(page: Page): Promise<void> {
+    if (this.tracing) {
+      this.tracing = false;
+      await page.tracing.stop().catch(() => undefined);
+    }
+  }
+
+  // From here on the page may show the token, which a screenshot would keep; the HTML is still
+  // saved because scrub() can redact it
+  stopScreenshots(reason: string): void {
+    if (this.screenshots) {
+      this.screenshots = false;
+      this.note(`No more screenshots: ${reason}`);
+    }
+  }
+
+  // Never throws: a closed page must not hide the failure being recorded
+  async capture(page: Page, label: string, error?: Error): Promise<void> {
+    const base = path.join(this.runDir, label.replace(/[^A-Za-z0-9._-]/g, '_'));
+    let url = 'unknown';
+    try {
+      url = page.url();
+      if (this.screenshots) {
+        await page.screenshot({ path: `${base}.png`, fullPage: true });
+      }
+      writeFileAtomic(`${base}.html`, await page.content());
+    } catch (captureError: any) {
+      this.note(`${label}: could not capture the page: ${captureError.message}`);
+    }
+    this.note(`${label}: ${url}${error ? ` - FAILED: ${error.message}` : ''}`);
+  }
+
+  // Text artifacts may contain the token once the portal shows it
+  scrub(tokens: string[]): void {
+    const secrets = tokens.filter(Boolean);
+    if (secrets.length === 0) {
+      return;
+    }
+    for (const file of fs.readdirSync(this.runDir)) {
+      if (!/\.(html|log|json)$/.test(file)) {
+        continue;
+      }
+      const filePath = path.join(this.runDir, file);
+      const content = fs.readFileSync(filePath, 'utf8');
+      if (secrets.some(secret => content.includes(secret))) {
+        writeFileAtomic(filePath, secrets.reduce((text, secret) => text.split(secret).join('[REDACTED TOKEN]'), content));
+      }
+    }
+  }
+}
@@ -0,0 +1,232 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProfileManager } from './profiles';
+import { TokenRecord } from './token-store';
+import { DotenvDocument } from './dotenv';
+import { fetchIdentity } from './identity';
+import { WebexEnvironment } from './environments';
+import { NetworkOptions, browserNetworkSettings, createHttpClient, describeNetwork, networkOptionsFromEnv } from './network';
+
+export type CheckStatus = 'pass' | 'warn' | 'fail';
+
+export interface DoctorCheck {
+  id: string;
+  status: CheckStatus;
+  message: string;
+  hint?: string;
+}
+
+export interface DoctorOptions {
+  offline?: boolean;
+  browserPath?: string;
+  // --env; otherwise the profile's environment
+  environment?: string;
+}
+
+const BROWSER_LAUNCH_TIMEOUT = 20000;
+const EXPIRY_WARNING_DAYS = 3;
+
+// Each check reports pass/warn/fail with a hint; none of them throws, so one broken
+// piece never hides the state of the others
+export class Doctor {
+  private record: TokenRecord | null = null;
+  private storeError?: string;
+  private network: NetworkOptions = networkOptionsFromEnv();
+  private environment?: WebexEnvironment;
+  private networkError?: string;
+
+  constructor(private profiles: ProfileManager, private profile: string, private options: DoctorOptions = {}) {}
+
+  async run(): Promise<DoctorCheck[]> {
+    const checks = [this.checkConfigDir(), this.checkFilePermissions(), this.checkStoredToken()];
+    checks.push(this.checkEnvScript(), this.checkEnvironment(), this.checkExpiry(), this.checkNetwork());
+    checks.push(await this.checkBrowser());
+    checks.push(await this.checkTokenValidity());
+    return checks;
+  }
+
+  private checkConfigDir(): DoctorCheck {
+    const dir = this.profiles.configDir;
+    if (!fs.existsSync(dir)) {
+      return { id: 'config-dir', status: 'fail', message: `${dir} does not exist`, hint: 'Run "webex-auth login" to create it' };
+    }
+    const mode = fs.statSync(dir).mode & 0o777;
+    if (mode & 0o077) {
+      return {
+        id: 'config-dir',
+        status: 'warn',
+        message: `${dir} is accessible by other users (mode ${mode.toString(8)})`,
+        hint: `chmod 700 ${dir}`
+      };
+    }
+    return { id: 'config-dir', status: 'pass', message: `${dir} is private` };
+  }
+
+  private checkFilePermissions(): DoctorCheck {
+    const exposed = this.listFiles(this.profiles.configDir).filter(file => fs.statSync(file).mode & 0o077);
+    if (exposed.length > 0) {
+      const worldReadable = exposed.some(file => fs.statSync(file).mode & 0o004);
+      return {
+        id: 'file-permissions',
+        status: worldReadable ? 'fail' : 'warn',
+        message: `${exposed.length} file(s) readable by other users: ${exposed.join(', ')}`,
+        hint: `chmod 600 ${exposed.join(' ')}`
+      };
+    }
+    return { id: 'file-permissions', status: 'pass', message: 'All files are owner-only' };
+  }
+
+  private checkStoredToken(): DoctorCheck {
+    try {
+      this.record = this.profiles.openStore(this.profile).read();
+    } catch (error: any) {
+      this.storeError = error.message;
+      return { id: 'stored-token', status: 'fail', message: `Could not read the token store: ${error.message}`, hint: 'Check "webex-auth store status" and the store key or commands' };
+    }
+    if (!this.record?.WEBEX_ACCESS_TOKEN) {
+      return { id: 'stored-token', status: 'fail', message: `No token stored for profile "${this.profile}"`, hint: `Run "webex-auth login --profile ${this.profile}"` };
+    }
+    return { id: 'stored-token', status: 'pass', message: `Token stored in ${this.profiles.getStoreConfig().backend} store` };
+  }
+
+  // The sourced script is a copy of the stored token for the plain store, and a loader otherwise
+  private checkEnvScript(): DoctorCheck {
+    const scriptPath = this.profiles.envScriptPath(this.profile);
+    const regenerate = 'Run "webex-auth refresh --force" or "webex-auth login" to rewrite it';
+    if (!this.record) {
+      return { id: 'env-script', status: 'warn', message: 'Skipped - no stored token to compare with' };
+    }
+    if (!fs.existsSync(scriptPath)) {
+      return { id: 'env-script', status: 'fail', message: `${scriptPath} is missing`, hint: regenerate };
+    }
+
+    const script = fs.readFileSync(scriptPath, 'utf8');
+    if (this.profiles.getStoreConfig().backend !== 'plain') {
+      return script.includes('webex-auth token')
+        ? { id: 'env-script', status: 'pass', message: `${scriptPath} loads the token from the store` }
+        : { id: 'env-script', status: 'fail', message: `${scriptPath} does not load the token from the store`, hint: regenerate };
+    }
+
+    const exported = DotenvDocument.parse(script).get('WEBEX_ACCESS_TOKEN');
+    if (exported !== this.record.WEBEX_ACCESS_TOKEN) {
+      return { id: 'env-script', status: 'fail', message: `${scriptPath} exports a different token than ${this.profiles.envFilePath(this.profile)}`, hint: regenerate };
+    }
+    return { id: 'env-script', status: 'pass', message: `${scriptPath} matches the stored token` };
+  }
+
+  private checkEnvironment(): DoctorCheck {
+    const fromEnv = process.env.WEBEX_ACCESS_TOKEN;
+    if (!fromEnv) {
+      return {
+        id: 'environment',
+        status: 'warn',
+        message: 'WEBEX_ACCESS_TOKEN is not set in this shell',
+        hint: `source ${this.profiles.envScriptPath(this.profile)}`
+      };
+    }
+    if (this.record && fromEnv !== this.record.WEBEX_ACCESS_TOKEN) {
+      return {
+        id: 'environment',
+        status: 'warn',
+        message: 'WEBEX_ACCESS_TOKEN in this shell differs from the stored token and shadows it for other tools',
+        hint: `source ${this.profiles.envScriptPath(this.profile)} again, or unset WEBEX_ACCESS_TOKEN`
+      };
+    }
+    return { id: 'environment', status: 'pass', message: 'WEBEX_ACCESS_TOKEN in this shell matches the stored token' };
+  }
+
+  private checkExpiry(): DoctorCheck {
+    if (!this.record) {
+      return { id: 'expiry', status: 'warn', message: 'Skipped - no stored token' };
+    }
+    const expiresAt = parseInt(this.record.WEBEX_TOKEN_EXPIRES_AT || '0', 10);
+    if (!expiresAt) {
+      return { id: 'expiry', status: 'pass', message: 'The token has no recorded expiry' };
+    }
+
+    const days = (expiresAt - Date.now()) / 86400000;
+    const renew = this.record.WEBEX_REFRESH_TOKEN ? 'Run "webex-auth refresh"' : 'Run "webex-auth login" again';
+    if (days <= 0) {
+      return { id: 'expiry', status: 'fail', message: `The token expired ${new Date(expiresAt).toLocaleString()}`, hint: renew };
+    }
+    const message = `The token expires in ${days.toFixed(1)} days (${new Date(expiresAt).toLocaleString()})`;
+    if (days < EXPIRY_WARNING_DAYS) {
+      return { id: 'expiry', status: 'warn', message, hint: renew };
+    }
+    return { id: 'expiry', status: 'pass', message };
+  }
+
+  // The Webex environment and the proxy and CA bundle every request goes through
+  private checkNetwork(): DoctorCheck {
+    try {
+      this.environment = this.profiles.resolveEnvironment(this.profile, this.options.environment);
+      // Reads and parses the CA bundle and the proxy URL the same way a login does
+      browserNetworkSettings(this.network);
+      createHttpClient(this.network);
+    } catch (error: any) {
+      this.networkError = error.message;
+      return { id: 'network', status: 'fail', message: error.message, hint: 'Check --env, the environments in config.json, HTTPS_PROXY and WEBEX_AUTH_CA_FILE' };
+    }
+    return { id: 'network', status: 'pass', message: `${this.environment.name} environment (${this.environment.apiBaseUrl}), ${describeNetwork(this.network)}` };
+  }
+
+  // Launching is the only reliable test: an installed Chrome can still miss system libraries
+  private async checkBrowser(): Promise<DoctorCheck> {
+    const hint = 'Run "npx puppeteer browsers install chrome" or pass --browser-path to login';
+    let executable = this.options.browserPath;
+    try {
+      const puppeteer = await import('puppeteer');
+      executable = executable || puppeteer.default.executablePath();
+      if (!fs.existsSync(executable)) {
+        return { id: 'browser', status: 'fail', message: `No browser at ${executable}`, hint };
+      }
+      const browser = await puppeteer.default.launch({ headless: true, executablePath: executable, timeout: BROWSER_LAUNCH_TIMEOUT });
+      const version = await browser.version();
+      await browser.close();
+      return { id: 'browser', status: 'pass', message: `${version} launches (${executable})` };
+    } catch (error: any) {
+      const firstLine = error.message.split('\n').filter(Boolean).slice(0, 2).join(' ');
+      return {
+        id: 'browser',
+        status: 'fail',
+        message: `The browser${executable ? ` at ${executable}` : ''} does not start: ${firstLine}`,
+        hint: 'Install the system libraries Chrome needs (https://pptr.dev/troubleshooting) or pass --browser-path to login'
+      };
+    }
+  }
+
+  private async checkTokenValidity(): Promise<DoctorCheck> {
+    if (!this.record?.WEBEX_ACCESS_TOKEN) {
+      return { id: 'token-valid', status: 'warn', message: this.storeError ? 'Skipped - the store could not be read' : 'Skipped - no stored token' };
+    }
+    if (this.options.offline) {
+      return { id: 'token-valid', status: 'warn', message: 'Skipped - offline' };
+    }
+    if (this.networkError) {
+      return { id: 'token-valid', status: 'warn', message: 'Skipped - the network settings are broken' };
+    }
+    try {
+      const identity = await fetchIdentity(this.record.WEBEX_ACCESS_TOKEN, createHttpClient(this.network), this.environment?.apiBaseUrl);
+      return { id: 'token-valid', status: 'pass', message: `The Webex API accepts the token (${identity.displayName}${identity.emails[0] ? ` <${identity.emails[0]}>` : ''})` };
+    } catch (error: any) {
+      if (error.code === 'network_failure') {
+        return { id: 'token-valid', status: 'warn', message: error.message, hint: 'Check your network or proxy settings' };
+      }
+      return { id: 'token-valid', status: 'fail', message: error.message, hint: `Run "webex-auth login --profile ${this.profile}" to get a new token` };
+    }
+  }
+
+  private listFiles(dir: string): string[] {
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+    return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+      const entryPath = path.join(dir, entry.name);
+      // Chrome manages the permissions inside its own user-data directory
+      if (entry.isDirectory()) {
+        return entry.name === 'browser-session' ? [] : this.listFiles(entryPath);
+      }
+      return entry.isFile() ? [entryPath] : [];
+    });
+  }
+}
@@ -0,0 +1,265 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ensurePrivateDir, writeFileAtomic } from './files';
+
+// One entry per physical line (or per multi-line quoted value), so unrelated
+// content round-trips byte for byte
+type DotenvLine =
+  | { kind: 'other'; raw: string }
+  | { kind: 'pair'; raw: string; key: string; value: string; exported: boolean };
+
+const PAIR_PATTERN = /^\s*(export\s+)?([A-Za-z_][A-Za-z0-9_.]*)\s*=\s*(.*)$/s;
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', '"': '"', '\\': '\\', $: '$', '`': '`' };
+
+const LOCK_TIMEOUT_MS = 10000;
+// Well below the timeout, so a lock left by a crashed writer is taken over instead of waited
+// out; a live writer holds it for a few milliseconds
+const LOCK_STALE_MS = 3000;
+const LOCK_RETRY_MS = 50;
+
+export class DotenvDocument {
+  private constructor(private lines: DotenvLine[], private trailingNewline: boolean) {}
+
+  static parse(content: string): DotenvDocument {
+    const physical = content ? content.split(/\r?\n/) : [];
+    const trailingNewline = content.endsWith('\n');
+    if (trailingNewline) {
+      physical.pop();
+    }
+
+    const lines: DotenvLine[] = [];
+    for (let index = 0; index < physical.length; index++) {
+      let raw = physical[index];
+      const match = raw.match(PAIR_PATTERN);
+      if (!match) {
+        lines.push({ kind: 'other', raw });
+        continue;
+      }
+
+      // A double- or single-quoted value may continue over several lines
+      const quote = match[3][0];
+      if ((quote === '"' || quote === '\'') && !closesQuote(match[3].slice(1), quote)) {
+        while (index + 1 < physical.length && !closesQuote(raw.slice(raw.indexOf(quote) + 1), quote)) {
+          raw += '\n' + physical[++index];
+        }
+      }
+      const full = raw.match(PAIR_PATTERN)!;
+      lines.push({ kind: 'pair', raw, key: full[2], value: parseValue(full[3]), exported: !!full[1] });
+    }
+    return new DotenvDocument(lines, trailingNewline || physical.length === 0);
+  }
+
+  get(key: string): string | undefined {
+    // Like a shell, the last assignment wins
+    const pairs = this.lines.filter(line => line.kind === 'pair' && line.key === key);
+    const last = pairs[pairs.length - 1];
+    return last?.kind === 'pair' ? last.value : undefined;
+  }
+
+  keys(): string[] {
+    return [...new Set(this.lines.flatMap(line => line.kind === 'pair' ? [line.key] : []))];
+  }
+
+  toRecord(keys?: string[]): Record<string, string> {
+    const record: Record<string, string> = {};
+    for (const key of this.keys()) {
+      if (!keys || keys.includes(key)) {
+        record[key] = this.get(key)!;
+      }
+    }
+    return record;
+  }
+
+  // Replaces a key in place (keeping its export prefix), or appends it
+  set(key: string, value: string): void {
+    const index = this.lines.findIndex(line => line.kind === 'pair' && line.key === key);
+    if (index === -1) {
+      this.lines.push({ kind: 'pair', raw: `${key}=${formatValue(value)}`, key, value, exported: false });
+      return;
+    }
+
+    const existing = this.lines[index] as Extract<DotenvLine, { kind: 'pair' }>;
+    if (existing.value !== value) {
+      const raw = `${existing.exported ? 'export ' : ''}${key}=${formatValue(value)}`;
+      this.lines[index] = { ...existing, raw, value };
+    }
+    // Later duplicates would shadow the new value
+    this.lines = this.lines.filter((line, position) => position <= index || line.kind !== 'pair' || line.key !== key);
+  }
+
+  delete(key: string): void {
+    this.lines = this.lines.filter(line => line.kind !== 'pair' || line.key !== key);
+  }
+
+  isEmpty(): boolean {
+    return this.lines.every(line => line.kind === 'other' && !line.raw.trim());
+  }
+
+  toString(): string {
+    const body = this.lines.map(line => line.raw).join('\n');
+    return body && this.trailingNewline ? body + '\n' : body;
+  }
+}
+
+function closesQuote(rest: string, quote: string): boolean {
+  for (let index = 0; index < rest.length; index++) {
+    if (quote === '"' && rest[index] === '\\') {
+      index++;
+    } else if (rest[index] === quote) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function parseValue(raw: string): string {
+  const quote = raw[0];
+  if (quote === '\'') {
+    const end = raw.indexOf('\'', 1);
+    return end === -1 ? raw.slice(1) : raw.slice(1, end);
+  }
+  if (quote === '"') {
+    let value = '';
+    for (let index = 1; index < raw.length; index++) {
+      const char = raw[index];
+      if (char === '"') {
+        break;
+      }
+      if (char === '\\' && index + 1 < raw.length) {
+        const next = raw[++index];
+        value += DOUBLE_QUOTE_ESCAPES[next] ?? `\\${next}`;
+      } else {
+        value += char;
+      }
+    }
+    return value;
+  }
+  // Unquoted: an inline comment needs whitespace before the #
+  return raw.replace(/\s+#.*$/, '').trim();
+}
+
+// Plain values stay bare; anything else is double-quoted so that both dotenv
+// parsers and `source` in a shell read back the same string
+export function formatValue(value: string): string {
+  if (/^[A-Za-z0-9_./:@+=,-]*$/.test(value)) {
+    return value;
+  }
+  return `"${value.replace(/[\\"$`]/g, '\\$&').replace(/\n/g, '\\n').replace(/\r/g, '\\r')}"`;
+}
+
+// Always double-quoted, for scripts that are sourced rather than parsed
+export function formatShellExport(key: string, value: string): string {
+  return `export ${key}="${value.replace(/[\\"$`]/g, '\\$&').replace(/\n/g, '\\n')}"`;
+}
+
+export function readDotenv(filePath: string): DotenvDocument | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+  return DotenvDocument.parse(fs.readFileSync(filePath, 'utf8'));
+}
+
+// Read-modify-write under a lock file, so two concurrent logins cannot
+// interleave and drop each other's changes
+export function updateDotenv(filePath: string, update: (document: DotenvDocument) => void): DotenvDocument {
+  return withFileLock(filePath, () => {
+    const document = readDotenv(filePath) || DotenvDocument.parse('');
+    update(document);
+    if (document.isEmpty()) {
+      fs.rmSync(filePath, { force: true });
+    } else {
+      writeFileAtomic(filePath, document.toString());
+    }
+    return document;
+  });
+}
+
+function isStale(lock: fs.Stats): boolean {
+  return Date.now() - lock.mtimeMs > LOCK_STALE_MS;
+}
+
+// True while another writer holds the lock; a crashed writer's stale lock does not count
+function isLocked(lockPath: string): boolean {
+  const lock = fs.statSync(lockPath, { throwIfNoEntry: false });
+  return !!lock && !isStale(lock);
+}
+
+// Another waiter may have removed the stale lock and locked again since it was found stale, so
+// the lock is moved aside atomically and only deleted if the moved file is still the stale one.
+// A fresh lock moved aside is put back, unless yet another writer has locked meanwhile.
+function removeStaleLock(lockPath: string): void {
+  const aside = `${lockPath}.${process.pid}-${crypto.randomBytes(4).toString('hex')}`;
+  try {
+    fs.renameSync(lockPath, aside);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return;
+    }
+    throw error;
+  }
+  try {
+    if (!isStale(fs.statSync(aside))) {
+      fs.linkSync(aside, lockPath);
+    }
+  } catch (error: any) {
+    if (error.code !== 'EEXIST') {
+      throw error;
+    }
+  } finally {
+    fs.rmSync(aside, { force: true });
+  }
+}
+
+function lockTimeoutError(lockPath: string): Error {
+  return new Error(`Timed out waiting for ${lockPath} - remove it if no other webex-auth is running`);
+}
+
+// Waits for another writer's lock without blocking the event loop, so a long-running process
+// such as serve keeps answering meanwhile; withFileLock right after then normally gets it at once.
+// A stale lock ends the wait but is left for withFileLock to take over.
+export async function waitForFileLock(filePath: string): Promise<void> {
+  const lockPath = `${filePath}.lock`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  while (isLocked(lockPath)) {
+    if (Date.now() > deadline) {
+      throw lockTimeoutError(lockPath);
+    }
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+}
+
+export function withFileLock<T>(filePath: string, action: () => T): T {
+  const lockPath = `${filePath}.lock`;
+  ensurePrivateDir(path.dirname(filePath));
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      fs.closeSync(fs.openSync(lockPath, 'wx'));
+      break;
+    } catch (error: any) {
+      if (error.code !== 'EEXIST') {
+        throw error;
+      }
+      const lock = fs.statSync(lockPath, { throwIfNoEntry: false });
+      if (!lock) {
+        continue;
+      }
+      if (isStale(lock)) {
+        removeStaleLock(lockPath);
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw lockTimeoutError(lockPath);
+      }
+      Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, LOCK_RETRY_MS);
+    }
+  }
+
+  try {
+    return action();
+  } finally {
+    fs.rmSync(lockPath, { force: true });
+  }
+}
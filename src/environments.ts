@@ -0,0 +1,69 @@
+import { WebexAuthError } from './errors';
+
+export const DEFAULT_API_BASE_URL = 'https://webexapis.com/v1';
+export const DEFAULT_ENVIRONMENT = 'commercial';
+
+// Everything that differs between Webex deployments
+export interface WebexEnvironment {
+  name: string;
+  apiBaseUrl: string;
+  // Where the browser login reads the personal access token
+  portalUrl: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  // Authorizations API endpoint that revokes an integration's tokens
+  revokeUrl: string;
+  // {applicationId} is replaced with the service app's ID
+  serviceAppTokenUrl: string;
+}
+
+// What config.json may define; endpoints that are left out are derived from apiBaseUrl
+export interface EnvironmentConfig {
+  apiBaseUrl: string;
+  portalUrl?: string;
+  authorizeUrl?: string;
+  tokenUrl?: string;
+  revokeUrl?: string;
+  serviceAppTokenUrl?: string;
+}
+
+export const BUILTIN_ENVIRONMENTS: Record<string, EnvironmentConfig> = {
+  commercial: {
+    apiBaseUrl: DEFAULT_API_BASE_URL,
+    portalUrl: 'https://developer.webex.com/docs/getting-started'
+  },
+  fedramp: {
+    apiBaseUrl: 'https://api-usgov.webex.com/v1',
+    portalUrl: 'https://developer-usgov.webex.com/docs/getting-started'
+  },
+  integration: {
+    apiBaseUrl: 'https://integration.webexapis.com/v1',
+    portalUrl: 'https://developer-portal-intb.ciscospark.com/docs/getting-started'
+  }
+};
+
+export function toEnvironment(name: string, config: EnvironmentConfig): WebexEnvironment {
+  if (!config.apiBaseUrl) {
+    throw new WebexAuthError('usage', `Environment "${name}" needs an apiBaseUrl`);
+  }
+  const apiBaseUrl = config.apiBaseUrl.replace(/\/+$/, '');
+  return {
+    name,
+    apiBaseUrl,
+    portalUrl: config.portalUrl || BUILTIN_ENVIRONMENTS[DEFAULT_ENVIRONMENT].portalUrl!,
+    authorizeUrl: config.authorizeUrl || `${apiBaseUrl}/authorize`,
+    tokenUrl: config.tokenUrl || `${apiBaseUrl}/access_token`,
+    revokeUrl: config.revokeUrl || `${apiBaseUrl}/authorizations`,
+    serviceAppTokenUrl: config.serviceAppTokenUrl || `${apiBaseUrl}/applications/{applicationId}/token`
+  };
+}
+
+// Custom environments from config.json are merged over the built-in ones of the same name
+export function findEnvironment(name: string, custom: Record<string, EnvironmentConfig> = {}): WebexEnvironment {
+  const config = custom[name] ? { ...BUILTIN_ENVIRONMENTS[name], ...custom[name] } : BUILTIN_ENVIRONMENTS[name];
+  if (!config) {
+    const known = [...new Set([...Object.keys(BUILTIN_ENVIRONMENTS), ...Object.keys(custom)])];
+    throw new WebexAuthError('usage', `Unknown environment "${name}" - use ${known.join(', ')} or define it in config.json`);
+  }
+  return toEnvironment(name, config);
+}
@@ -0,0 +1,109 @@
+export type ErrorCode =
+  | 'error'
+  | 'usage'
+  | 'no_token'
+  | 'token_expired'
+  | 'refresh_rejected'
+  | 'refresh_failed'
+  | 'validation_failed'
+  | 'browser_failure'
+  | 'network_failure'
+  | 'timeout'
+  | 'user_cancelled';
+
+export type TokenErrorCode = Extract<ErrorCode, 'no_token' | 'token_expired' | 'refresh_rejected' | 'refresh_failed'>;
+
+// Process exit status for each error code; documented in the README and stable across releases
+export const EXIT_CODES: Record<ErrorCode, number> = {
+  error: 1,
+  usage: 2,
+  no_token: 3,
+  token_expired: 4,
+  refresh_rejected: 4,
+  refresh_failed: 1,
+  validation_failed: 5,
+  browser_failure: 6,
+  network_failure: 7,
+  timeout: 8,
+  user_cancelled: 130
+};
+
+// Errors callers are expected to branch on carry a stable, machine-readable code
+export class WebexAuthError extends Error {
+  constructor(readonly code: ErrorCode, message: string) {
+    super(message);
+    this.name = 'WebexAuthError';
+  }
+}
+
+export class TokenError extends WebexAuthError {
+  declare readonly code: TokenErrorCode;
+
+  constructor(code: TokenErrorCode, message: string) {
+    super(code, message);
+    this.name = 'TokenError';
+  }
+}
+
+export class TokenNotFoundError extends TokenError {
+  constructor(message: string) {
+    super('no_token', message);
+    this.name = 'TokenNotFoundError';
+  }
+}
+
+export class TokenExpiredError extends TokenError {
+  constructor(message: string) {
+    super('token_expired', message);
+    this.name = 'TokenExpiredError';
+  }
+}
+
+// The Webex API (or an OAuth endpoint) rejected a token, a code or a callback
+export class ValidationError extends WebexAuthError {
+  constructor(message: string) {
+    super('validation_failed', message);
+    this.name = 'ValidationError';
+  }
+}
+
+export class BrowserAutomationError extends WebexAuthError {
+  constructor(message: string) {
+    super('browser_failure', message);
+    this.name = 'BrowserAutomationError';
+  }
+}
+
+// Rebuilds the most specific error class for a code, e.g. for one that crossed a process boundary
+export function errorForCode(code: ErrorCode, message: string): WebexAuthError {
+  switch (code) {
+    case 'no_token':
+      return new TokenNotFoundError(message);
+    case 'token_expired':
+      return new TokenExpiredError(message);
+    case 'refresh_rejected':
+    case 'refresh_failed':
+      return new TokenError(code, message);
+    case 'validation_failed':
+      return new ValidationError(message);
+    case 'browser_failure':
+      return new BrowserAutomationError(message);
+    default:
+      return new WebexAuthError(code, message);
+  }
+}
+
+export function errorCodeOf(error: any): ErrorCode {
+  if (error instanceof WebexAuthError) {
+    return error.code;
+  }
+  // axios errors without a response never reached the server
+  if (error?.isAxiosError && !error.response) {
+    return 'network_failure';
+  }
+  return 'error';
+}
+
+export function exitCodeOf(error: any): number {
+  return EXIT_CODES[errorCodeOf(error)];
+}
@@ -0,0 +1,28 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+// Files under the config directory may hold credentials, so they are owner-only
+export const PRIVATE_FILE_MODE = 0o600;
+export const PRIVATE_DIR_MODE = 0o700;
+
+export function ensurePrivateDir(dir: string): void {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true, mode: PRIVATE_DIR_MODE });
+  }
+}
+
+// Write to a temp file in the same directory and rename it over the target,
+// so readers never see a half-written file
+export function writeFileAtomic(filePath: string, content: string, mode: number = PRIVATE_FILE_MODE): void {
+  ensurePrivateDir(path.dirname(filePath));
+  const tempPath = `${filePath}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+  try {
+    fs.writeFileSync(tempPath, content, { mode });
+    fs.chmodSync(tempPath, mode);
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
@@ -0,0 +1,56 @@
+import axios, { AxiosInstance } from 'axios';
+import { ValidationError, WebexAuthError } from './errors';
+import { DEFAULT_API_BASE_URL } from './environments';
+import { WebexIdentity } from './types';
+
+export function peopleMeUrl(apiBaseUrl: string = DEFAULT_API_BASE_URL): string {
+  return `${apiBaseUrl}/people/me`;
+}
+
+export function toIdentity(person: any): WebexIdentity {
+  return {
+    id: person?.id || '',
+    displayName: person?.displayName || '',
+    emails: person?.emails || [],
+    orgId: person?.orgId || '',
+    type: person?.type || 'person',
+    licenses: person?.licenses || [],
+    roles: person?.roles || [],
+    fetchedAt: new Date().toISOString()
+  };
+}
+
+export async function fetchIdentity(token: string, http: AxiosInstance = axios, apiBaseUrl?: string): Promise<WebexIdentity> {
+  try {
+    const response = await http.get(peopleMeUrl(apiBaseUrl), {
+      headers: { 'Authorization': `Bearer ${token}` }
+    });
+    return toIdentity(response.data);
+  } catch (error: any) {
+    const status = error.response?.status;
+    if (status === 401) {
+      throw new ValidationError('The Webex API rejected the token (401 Unauthorized) - it is invalid, expired or revoked');
+    }
+    const details = error.response?.data?.message || error.message;
+    const message = `Could not look up the token's identity: ${status ? `${status} ` : ''}${details}`;
+    throw error.response ? new ValidationError(message) : new WebexAuthError('network_failure', message);
+  }
+}
+
+export function formatIdentityLines(identity: WebexIdentity): string[] {
+  const lines = [
+    `👤 Name: ${identity.displayName}`,
+    `📧 Emails: ${identity.emails.join(', ') || 'none'}`,
+    `🆔 Person ID: ${identity.id}`,
+    `🏢 Org ID: ${identity.orgId}`,
+    `🤖 Type: ${identity.type}`
+  ];
+  if (identity.licenses.length > 0) {
+    lines.push(`🎫 Licenses: ${identity.licenses.join(', ')}`);
+  }
+  if (identity.roles.length > 0) {
+    lines.push(`🛡️  Roles: ${identity.roles.join(', ')}`);
+  }
+  lines.push(`🕒 Looked up: ${new Date(identity.fetchedAt).toLocaleString()}`);
+  return lines;
+}
@@ -0,0 +1,70 @@
+// Library entry point; the webex-auth CLI is a thin layer on top of these exports
+
+export {
+  TokenManager,
+  DEFAULT_REFRESH_MARGIN_SECONDS,
+  IMPORT_TOKEN_TYPES,
+  PAT_LIFETIME_SECONDS
+} from './token-manager';
+export type {
+  TokenManagerOptions,
+  LoginStrategy,
+  OAuthLoginOptions,
+  ServiceAppLoginOptions,
+  ImportTokenType,
+  TokenLifetime,
+  BrowserLoginOptions,
+  GetTokenOptions,
+  LogoutOptions,
+  SaveTokenOptions,
+  SignInDetails
+} from './token-manager';
+
+export {
+  WebexAuthError,
+  TokenError,
+  TokenNotFoundError,
+  TokenExpiredError,
+  ValidationError,
+  BrowserAutomationError,
+  EXIT_CODES,
+  errorCodeOf
+} from './errors';
+export type { ErrorCode, TokenErrorCode } from './errors';
+export { RefreshTokenRejectedError, OAuthFlow, exchangeServiceAppToken, DEFAULT_SERVICE_APP_TOKEN_URL } from './oauth';
+export type { OAuthOptions, ServiceAppOptions } from './oauth';
+
+export { createWebexClient, WebexApiError, DEFAULT_API_BASE_URL } from './webex-client';
+export type { WebexClientOptions } from './webex-client';
+
+export { BUILTIN_ENVIRONMENTS, DEFAULT_ENVIRONMENT, findEnvironment } from './environments';
+export type { WebexEnvironment, EnvironmentConfig } from './environments';
+export { applyNetworkOptions, createHttpClient, networkOptionsFromEnv } from './network';
+export type { NetworkOptions } from './network';
+
+export { AuditLog, AUDIT_EVENT_TYPES, tokenFingerprint } from './audit-log';
+export type { AuditEntry, AuditEvent, AuditEventType, AuditFilter, AuditIdentity, AuditLogOptions, AuditSource } from './audit-log';
+
+export { consoleLogger, silentLogger } from './logger';
+export type { Logger } from './logger';
+
+export { ProfileManager, TOKEN_TYPE_LABELS } from './profiles';
+export type { ProfileMetadata, ProfileSummary, ServiceAppDetails, SignInConfig, TokenType } from './profiles';
+export { PlaintextFileStore, EncryptedFileStore, CommandStore, createTokenStore } from './token-store';
+export type { TokenStore, TokenRecord, StoreConfig, StoreBackend } from './token-store';
+
+export { PortalFlowRunner } from './portal-flow';
+export type { StepPlan, FlowPhase, FlowStep } from './portal-flow';
+export type { ExtractionStrategy } from './token-extraction';
+
+export { CredentialClient, CredentialServer } from './credential-server';
+export type { CredentialClientOptions, CredentialSource, ServedToken } from './credential-server';
+
+export type {
+  LoginResult,
+  LogoutResult,
+  TokenResponse,
+  WebexIdentity,
+  StoredToken,
+  OAuthClientCredentials
+} from './types';
@@ -0,0 +1,16 @@
+// Progress messages of long-running operations. The CLI prints them; library callers
+// get none unless they pass a logger of their own
+export interface Logger {
+  info(message: string): void;
+  warn(message: string): void;
+}
+
+export const silentLogger: Logger = {
+  info: () => {},
+  warn: () => {}
+};
+
+export const consoleLogger: Logger = {
+  info: message => console.log(message),
+  warn: message => console.error(message)
+};
@@ -0,0 +1,307 @@
+import axios, { AxiosInstance } from 'axios';
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as url from 'url';
+import { spawn } from 'child_process';
+import { AddressInfo } from 'net';
+import { TokenError, ValidationError, WebexAuthError } from './errors';
+import { Logger, silentLogger } from './logger';
+import { OAuthClientCredentials, TokenResponse } from './types';
+
+export const DEFAULT_AUTHORIZE_URL = 'https://webexapis.com/v1/authorize';
+export const DEFAULT_TOKEN_URL = 'https://webexapis.com/v1/access_token';
+// Authorizations API: deleting a user's authorization of an integration revokes its tokens
+export const DEFAULT_REVOKE_URL = 'https://webexapis.com/v1/authorizations';
+// {applicationId} is replaced with the service app's ID
+export const DEFAULT_SERVICE_APP_TOKEN_URL = 'https://webexapis.com/v1/applications/{applicationId}/token';
+export const DEFAULT_CALLBACK_PORT = 8080;
+export const DEFAULT_SCOPE = 'spark:all';
+export const DEFAULT_OAUTH_TIMEOUT_MS = 300000;
+const CALLBACK_PATH = '/callback';
+
+export interface OAuthOptions {
+  clientId: string;
+  clientSecret: string;
+  scope: string;
+  port: number;
+  redirectUri?: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  openBrowser: boolean;
+  timeoutMs: number;
+  http?: AxiosInstance;
+  logger?: Logger;
+}
+
+export interface ServiceAppOptions {
+  applicationId: string;
+  clientId: string;
+  clientSecret: string;
+  // The org whose admin authorized the service app
+  targetOrgId: string;
+  // Token of the service app's owner (a personal access or bot token); it authorizes the exchange
+  authToken: string;
+  exchangeUrl: string;
+  // Where the service-app token is refreshed later
+  tokenUrl: string;
+  http?: AxiosInstance;
+}
+
+function base64url(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function openInBrowser(target: string, logger: Logger): void {
+  const [command, args] = process.platform === 'darwin' ? ['open', [target]]
+    : process.platform === 'win32' ? ['cmd', ['/c', 'start', '""', target]]
+    : ['xdg-open', [target]];
+
+  try {
+    const child = spawn(command as string, args as string[], { detached: true, stdio: 'ignore' });
+    child.on('error', () => logger.warn('⚠️  Could not open a browser - open the URL above manually'));
+    child.unref();
+  } catch {
+    logger.warn('⚠️  Could not open a browser - open the URL above manually');
+  }
+}
+
+function parseUrl(value: string, what: string): url.URL {
+  try {
+    return new url.URL(value);
+  } catch {
+    throw new WebexAuthError('usage', `Invalid ${what}: ${value}`);
+  }
+}
+
+function respond(res: http.ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(`<!DOCTYPE html><html><body><h3>${message}</h3><p>You can close this window.</p></body></html>`);
+}
+
+export class OAuthFlow {
+  readonly state = base64url(crypto.randomBytes(16));
+  readonly codeVerifier = base64url(crypto.randomBytes(32));
+  private logger: Logger;
+
+  constructor(private options: OAuthOptions) {
+    this.logger = options.logger || silentLogger;
+  }
+
+  get codeChallenge(): string {
+    return base64url(crypto.createHash('sha256').update(this.codeVerifier).digest());
+  }
+
+  buildAuthorizeUrl(redirectUri: string): string {
+    const authorize = parseUrl(this.options.authorizeUrl, 'authorize URL');
+    authorize.searchParams.set('client_id', this.options.clientId);
+    authorize.searchParams.set('response_type', 'code');
+    authorize.searchParams.set('redirect_uri', redirectUri);
+    authorize.searchParams.set('scope', this.options.scope);
+    authorize.searchParams.set('state', this.state);
+    authorize.searchParams.set('code_challenge', this.codeChallenge);
+    authorize.searchParams.set('code_challenge_method', 'S256');
+    return authorize.toString();
+  }
+
+  async run(): Promise<TokenResponse> {
+    // An explicit redirect URI decides where the callback server listens
+    const redirect = this.options.redirectUri ? parseUrl(this.options.redirectUri, 'redirect URI') : null;
+    const host = redirect?.hostname || 'localhost';
+    const port = redirect ? Number(redirect.port || 80) : this.options.port;
+    const callbackPath = redirect?.pathname || CALLBACK_PATH;
+
+    const server = http.createServer();
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve());
+    });
+
+    try {
+      const boundPort = (server.address() as AddressInfo).port;
+      const redirectUri = this.options.redirectUri || `http://${host}:${boundPort}${callbackPath}`;
+      const authorizeUrl = this.buildAuthorizeUrl(redirectUri);
+      const codePromise = this.waitForCode(server, callbackPath);
+
+      this.logger.info(`🌐 Callback server listening on ${redirectUri}`);
+      this.logger.info('🔗 Open this URL to authorize the application:');
+      this.logger.info(`   ${authorizeUrl}`);
+      if (this.options.openBrowser) {
+        openInBrowser(authorizeUrl, this.logger);
+      }
+
+      this.logger.info('⏳ Waiting for the authorization callback...');
+      const code = await codePromise;
+      this.logger.info('✅ Authorization code received');
+
+      return await this.exchangeCode(code, redirectUri);
+    } finally {
+      server.closeAllConnections();
+      server.close();
+    }
+  }
+
+  private waitForCode(server: http.Server, callbackPath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(new WebexAuthError('timeout', `Timed out after ${Math.round(this.options.timeoutMs / 1000)}s waiting for the OAuth callback`));
+      }, this.options.timeoutMs);
+      // The login gave up before the callback came; nothing waits for the code any more
+      server.once('close', () => clearTimeout(timer));
+
+      server.on('request', (req, res) => {
+        const callback = new url.URL(req.url || '/', 'http://localhost');
+        if (callback.pathname !== callbackPath) {
+          respond(res, 404, 'Not found');
+          return;
+        }
+
+        clearTimeout(timer);
+        const error = callback.searchParams.get('error');
+        const code = callback.searchParams.get('code');
+
+        if (error) {
+          respond(res, 400, 'Authorization failed.');
+          const message = `Authorization denied: ${callback.searchParams.get('error_description') || error}`;
+          reject(error === 'access_denied' ? new WebexAuthError('user_cancelled', message) : new ValidationError(message));
+        } else if (callback.searchParams.get('state') !== this.state) {
+          respond(res, 400, 'Authorization failed: state mismatch.');
+          reject(new ValidationError('OAuth state mismatch - the callback did not come from this login attempt'));
+        } else if (!code) {
+          respond(res, 400, 'Authorization failed: no code returned.');
+          reject(new ValidationError('OAuth callback did not include an authorization code'));
+        } else {
+          respond(res, 200, 'Webex authorization complete.');
+          resolve(code);
+        }
+      });
+    });
+  }
+
+  async exchangeCode(code: string, redirectUri: string): Promise<TokenResponse> {
+    this.logger.info('🔄 Exchanging authorization code for tokens...');
+    try {
+      return await requestToken(this.options.http || axios, this.options.tokenUrl, {
+        grant_type: 'authorization_code',
+        client_id: this.options.clientId,
+        client_secret: this.options.clientSecret,
+        code,
+        redirect_uri: redirectUri,
+        code_verifier: this.codeVerifier
+      });
+    } catch (error: any) {
+      const message = `Token exchange failed: ${describeTokenError(error)}`;
+      throw reachedServer(error) ? new ValidationError(message) : new WebexAuthError('network_failure', message);
+    }
+  }
+}
+
+export class RefreshTokenRejectedError extends TokenError {
+  constructor(message: string) {
+    super('refresh_rejected', message);
+    this.name = 'RefreshTokenRejectedError';
+  }
+}
+
+export async function refreshAccessToken(client: OAuthClientCredentials, refreshToken: string, http: AxiosInstance = axios): Promise<TokenResponse> {
+  try {
+    const token = await requestToken(http, client.tokenUrl, {
+      grant_type: 'refresh_token',
+      client_id: client.clientId,
+      client_secret: client.clientSecret,
+      refresh_token: refreshToken
+    });
+    // Webex only rotates the refresh token some of the time; keep the old one otherwise
+    return { ...token, refresh_token: token.refresh_token || refreshToken };
+  } catch (error: any) {
+    const status = error.response?.status;
+    if (status === 400 || status === 401) {
+      throw new RefreshTokenRejectedError(`Refresh token was rejected (${describeTokenError(error)}). It has probably been revoked or has expired - run "webex-auth login --oauth" again.`);
+    }
+    if (!reachedServer(error)) {
+      throw new WebexAuthError('network_failure', `Token refresh failed: ${describeTokenError(error)}`);
+    }
+    throw new TokenError('refresh_failed', `Token refresh failed: ${describeTokenError(error)}`);
+  }
+}
+
+// Deletes the caller's own authorization of the integration through the Authorizations API,
+// which revokes its access and refresh tokens together. It is looked up by the caller's person ID
+// and deleted by its ID: deleting by clientId and orgId would, with an admin's token, sign every
+// user in the org out of the integration. The access token authenticates the calls; the caller
+// decides whether a failure matters.
+export async function revokeAuthorization(
+  clientId: string,
+  accessToken: string,
+  personId: string,
+  revokeUrl: string = DEFAULT_REVOKE_URL,
+  http: AxiosInstance = axios
+): Promise<void> {
+  const headers = { 'Authorization': `Bearer ${accessToken}` };
+  let authorizations: { id: string }[];
+  try {
+    const response = await http.get(revokeUrl, { params: { personId }, headers });
+    authorizations = (response.data?.items || []).filter((authorization: any) => authorization.clientId === clientId);
+    for (const authorization of authorizations) {
+      await http.delete(`${revokeUrl.replace(/\/+$/, '')}/${encodeURIComponent(authorization.id)}`, { headers });
+    }
+  } catch (error: any) {
+    const code = error.response ? 'error' : 'network_failure';
+    throw new WebexAuthError(code, `Revoking the authorization failed: ${describeTokenError(error)}`);
+  }
+  if (authorizations.length === 0) {
+    throw new WebexAuthError('error', `Revoking the authorization failed: no authorization of client ${clientId} was found for this user`);
+  }
+}
+
+// Service apps get their org-specific tokens from the owner's token instead of a user's consent
+export async function exchangeServiceAppToken(options: ServiceAppOptions): Promise<TokenResponse> {
+  const http = options.http || axios;
+  const exchangeUrl = options.exchangeUrl.replace('{applicationId}', encodeURIComponent(options.applicationId));
+  try {
+    const response = await http.post(exchangeUrl, {
+      clientId: options.clientId,
+      clientSecret: options.clientSecret,
+      targetOrgId: options.targetOrgId
+    }, {
+      headers: { 'Authorization': `Bearer ${options.authToken}` }
+    });
+    return toTokenResponse(response.data);
+  } catch (error: any) {
+    const status = error.response?.status;
+    const message = `Service-app token exchange failed: ${describeTokenError(error)}`;
+    if (status === 401 || status === 403) {
+      throw new ValidationError(`${message}. The authorizing token must belong to the service app's owner, and an admin of org ${options.targetOrgId} must have authorized the app.`);
+    }
+    throw new WebexAuthError(reachedServer(error) ? 'error' : 'network_failure', message);
+  }
+}
+
+async function requestToken(http: AxiosInstance, tokenUrl: string, params: Record<string, string>): Promise<TokenResponse> {
+  const response = await http.post(tokenUrl, new URLSearchParams(params).toString(), {
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+  });
+  return toTokenResponse(response.data);
+}
+
+function toTokenResponse(data: any): TokenResponse {
+  if (!data?.access_token) {
+    throw new WebexAuthError('error', 'Token endpoint response did not include an access_token');
+  }
+  return {
+    access_token: data.access_token,
+    refresh_token: data.refresh_token || '',
+    expires_in: Number(data.expires_in) || 0,
+    token_type: data.token_type || 'Bearer',
+    refresh_token_expires_in: Number(data.refresh_token_expires_in) || undefined
+  };
+}
+
+// The endpoint answered, with an error status or with something that is not a token
+function reachedServer(error: any): boolean {
+  return !!error.response || error instanceof WebexAuthError;
+}
+
+function describeTokenError(error: any): string {
+  const data = error.response?.data;
+  return data?.error_description || data?.message || data?.error || error.message;
+}
@@ -0,0 +1,69 @@
+import { EXIT_CODES, errorCodeOf } from './errors';
+import { Logger } from './logger';
+
+export interface OutputMode {
+  json: boolean;
+  quiet: boolean;
+}
+
+const mode: OutputMode = { json: false, quiet: false };
+
+export function configureOutput(options: Partial<OutputMode>): void {
+  mode.json = !!options.json;
+  mode.quiet = !!options.quiet;
+}
+
+// A line of a command's human-readable result on stdout; --quiet drops it
+export function print(message: string = ''): void {
+  if (!mode.quiet) {
+    process.stdout.write(message + '\n');
+  }
+}
+
+// Progress messages and other diagnostics go to stderr, so stdout only ever carries
+// the result; --quiet drops them
+export const cliLogger: Logger = {
+  info: message => {
+    if (!mode.quiet) {
+      process.stderr.write(message + '\n');
+    }
+  },
+  warn: message => {
+    if (!mode.quiet) {
+      process.stderr.write(message + '\n');
+    }
+  }
+};
+
+export function isJsonOutput(): boolean {
+  return mode.json;
+}
+
+export function toIsoOrNull(timestamp: number): string | null {
+  return timestamp > 0 ? new Date(timestamp).toISOString() : null;
+}
+
+// Left-aligned columns, each as wide as its longest cell
+export function formatTable(header: string[], rows: string[][]): string[] {
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+  return [header, ...rows].map(row => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd());
+}
+
+export function emitResult(command: string, result: Record<string, any>, render?: () => void): void {
+  if (mode.json) {
+    process.stdout.write(JSON.stringify({ ok: true, command, ...result }, null, 2) + '\n');
+    return;
+  }
+  render?.();
+}
+
+export function fail(command: string, error: any, prefix?: string): never {
+  const code = errorCodeOf(error);
+  const exitCode = EXIT_CODES[code];
+  if (mode.json) {
+    process.stdout.write(JSON.stringify({ ok: false, command, error: { code, message: error.message }, exitCode }, null, 2) + '\n');
+  } else {
+    console.error(`❌ ${prefix ? `${prefix}: ` : ''}${error.message}`);
+  }
+  process.exit(exitCode);
+}
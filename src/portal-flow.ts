@@ -0,0 +1,383 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Page } from 'puppeteer';
+import builtinPlan from './portal-steps.json';
+import { WebexAuthError } from './errors';
+import { FlowDiagnostics } from './diagnostics';
+import { Logger, silentLogger } from './logger';
+import {
+  EXTRACTION_STRATEGIES,
+  ExtractedToken,
+  ExtractionStrategy,
+  NetworkTokenCapture,
+  TokenCheck,
+  readTokenFromClipboard,
+  readTokenFromDom
+} from './token-extraction';
+
+export const STEP_PLAN_VERSION = 1;
+const DEFAULT_STEP_TIMEOUT = 10000;
+const SIGNED_IN_CHECK_TIMEOUT = 3000;
+
+export type StepAction = 'navigate' | 'waitFor' | 'click' | 'type' | 'focus' | 'sleep' | 'window' | 'extractToken';
+
+const STEP_ACTIONS: StepAction[] = ['navigate', 'waitFor', 'click', 'type', 'focus', 'sleep', 'window', 'extractToken'];
+
+export interface FlowStep {
+  id: string;
+  action: StepAction;
+  description: string;
+  // Alternates in priority order; the first one present on the page is used
+  selectors?: string[];
+  timeout?: number;
+  url?: string;
+  text?: string;
+  ms?: number;
+  window?: 'shrink' | 'maximize' | 'minimize';
+  // extractToken: where to look, and for "network" which requests and JSON keys carry the token
+  strategy?: ExtractionStrategy;
+  urlPatterns?: string[];
+  jsonKeys?: string[];
+  optional?: boolean;
+  message?: string;
+  // Only run for these identity-provider types / only when the email is auto-filled
+  idp?: string[];
+  autofill?: boolean;
+}
+
+export interface FlowPhase {
+  id: string;
+  description: string;
+  // "continue" skips the rest of the phase on failure, "abort" ends the flow
+  onFailure: 'continue' | 'abort';
+  failureHint?: string;
+  // Skipped when the portal already shows the signed-in state, e.g. from a kept browser session
+  skipWhenSignedIn?: boolean;
+  steps: FlowStep[];
+}
+
+export interface StepPlan {
+  version: number;
+  revision: string;
+  portalUrl: string;
+  // Email domain to identity-provider type; subdomains match too
+  identityProviders?: Record<string, string>;
+  // Any of these on the page means the user is signed in to the portal
+  signedInSelectors?: string[];
+  phases: FlowPhase[];
+}
+
+// A user file either replaces the phases or patches individual steps by id
+export interface StepPlanOverride {
+  version: number;
+  revision?: string;
+  portalUrl?: string;
+  identityProviders?: Record<string, string>;
+  signedInSelectors?: string[];
+  phases?: FlowPhase[];
+  overrides?: Record<string, Partial<FlowStep>>;
+}
+
+export interface ResolvedStepPlan {
+  plan: StepPlan;
+  source: string;
+}
+
+// portalUrl replaces the built-in plan's, e.g. for another Webex environment; a step file's own wins
+export function loadStepPlan(overridePath?: string, portalUrl?: string): ResolvedStepPlan {
+  const plan: StepPlan = JSON.parse(JSON.stringify(builtinPlan));
+  if (portalUrl) {
+    plan.portalUrl = portalUrl;
+  }
+  if (!overridePath || !fs.existsSync(overridePath)) {
+    return { plan: validateStepPlan(plan, 'built-in'), source: 'built-in' };
+  }
+
+  let override: StepPlanOverride;
+  try {
+    override = JSON.parse(fs.readFileSync(overridePath, 'utf8'));
+  } catch (error: any) {
+    throw new WebexAuthError('usage', `Could not parse step file ${overridePath}: ${error.message}`);
+  }
+  if (override.version !== STEP_PLAN_VERSION) {
+    throw new WebexAuthError('usage', `Step file ${overridePath} has version ${override.version}; this release understands version ${STEP_PLAN_VERSION}`);
+  }
+
+  if (override.phases) {
+    plan.phases = override.phases;
+  }
+  if (override.portalUrl) {
+    plan.portalUrl = override.portalUrl;
+  }
+  plan.identityProviders = { ...plan.identityProviders, ...override.identityProviders };
+  if (override.signedInSelectors) {
+    plan.signedInSelectors = override.signedInSelectors;
+  }
+  plan.revision = override.revision || `${plan.revision}+${path.basename(overridePath)}`;
+
+  for (const [stepId, patch] of Object.entries(override.overrides || {})) {
+    const step = plan.phases.flatMap(phase => phase.steps).find(candidate => candidate.id === stepId);
+    if (!step) {
+      throw new WebexAuthError('usage', `Step file ${overridePath} overrides unknown step "${stepId}"`);
+    }
+    Object.assign(step, patch, { id: stepId });
+  }
+
+  return { plan: validateStepPlan(plan, overridePath), source: overridePath };
+}
+
+function validateStepPlan(plan: StepPlan, source: string): StepPlan {
+  for (const phase of plan.phases) {
+    for (const step of phase.steps) {
+      if (!STEP_ACTIONS.includes(step.action)) {
+        throw new WebexAuthError('usage', `Step "${step.id}" in ${source} has unknown action "${step.action}"`);
+      }
+      if (step.action === 'extractToken' && !EXTRACTION_STRATEGIES.includes(step.strategy!)) {
+        throw new WebexAuthError('usage', `Step "${step.id}" in ${source} needs a strategy (${EXTRACTION_STRATEGIES.join(', ')})`);
+      }
+      if (step.strategy === 'network' && (!step.urlPatterns || step.urlPatterns.length === 0)) {
+        throw new WebexAuthError('usage', `Step "${step.id}" in ${source} needs at least one URL pattern`);
+      }
+      const needsSelectors = ['waitFor', 'click', 'type', 'focus'].includes(step.action) || step.strategy === 'dom';
+      if (needsSelectors && (!step.selectors || step.selectors.length === 0)) {
+        throw new WebexAuthError('usage', `Step "${step.id}" in ${source} needs at least one selector`);
+      }
+    }
+  }
+  return plan;
+}
+
+function substitute(value: string, variables: Record<string, string>): string {
+  return value.replace(/\{(\w+)\}/g, (match, name) => variables[name] ?? match);
+}
+
+export function resolveVariables(plan: StepPlan, variables: Record<string, string>): StepPlan {
+  const all = { portalUrl: plan.portalUrl, ...variables };
+  return {
+    ...plan,
+    phases: plan.phases.map(phase => ({
+      ...phase,
+      steps: phase.steps.map(step => ({
+        ...step,
+        url: step.url && substitute(step.url, all),
+        text: step.text && substitute(step.text, all),
+        urlPatterns: step.urlPatterns?.map(pattern => substitute(pattern, all))
+      }))
+    }))
+  };
+}
+
+export const GENERIC_IDP = 'generic';
+
+export interface SignInContext {
+  idp: string;
+  autofill: boolean;
+}
+
+// The most specific matching domain wins, so "eu.example.com" can differ from "example.com"
+export function detectIdentityProvider(email: string | null, rules: Record<string, string> = {}): string {
+  const domain = email?.split('@')[1]?.toLowerCase();
+  if (!domain) {
+    return GENERIC_IDP;
+  }
+  const match = Object.keys(rules)
+    .filter(rule => domain === rule.toLowerCase() || domain.endsWith(`.${rule.toLowerCase()}`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? rules[match] : GENERIC_IDP;
+}
+
+// The generic type plus every type the plan's steps or domain rules name
+export function knownIdentityProviders(plan: StepPlan): string[] {
+  const named = plan.phases.flatMap(phase => phase.steps.flatMap(step => step.idp || []));
+  return [...new Set([GENERIC_IDP, ...named, ...Object.values(plan.identityProviders || {})])];
+}
+
+// Drops the steps that do not apply to this identity provider or auto-fill setting
+export function selectSteps(plan: StepPlan, context: SignInContext): StepPlan {
+  return {
+    ...plan,
+    phases: plan.phases.map(phase => ({
+      ...phase,
+      steps: phase.steps.filter(step =>
+        (!step.idp || step.idp.includes(context.idp)) && (!step.autofill || context.autofill)
+      )
+    }))
+  };
+}
+
+// Keeps only the extractToken steps whose strategy is listed; the plan still decides the order
+export function limitStrategies(plan: StepPlan, strategies: ExtractionStrategy[]): StepPlan {
+  return {
+    ...plan,
+    phases: plan.phases.map(phase => ({
+      ...phase,
+      steps: phase.steps.filter(step => step.action !== 'extractToken' || strategies.includes(step.strategy!))
+    }))
+  };
+}
+
+const WINDOW_SCRIPTS: Record<NonNullable<FlowStep['window']>, string> = {
+  shrink: `() => {
+    window.resizeTo(200, 100);
+    window.moveTo(window.screen.availWidth - 200, window.screen.availHeight - 100);
+  }`,
+  maximize: `() => {
+    if (window.outerHeight < window.screen.availHeight || window.outerWidth < window.screen.availWidth) {
+      window.resizeTo(window.screen.availWidth, window.screen.availHeight);
+      window.moveTo(0, 0);
+    }
+  }`,
+  minimize: `() => {
+    if (window.minimize) {
+      window.minimize();
+    } else {
+      // Fallback: move window off-screen or resize to small
+      window.resizeTo(100, 100);
+      window.moveTo(window.screen.availWidth - 100, window.screen.availHeight - 100);
+    }
+  }`
+};
+
+export class PortalFlowRunner {
+  private stepNumber = 0;
+  private captures = new Map<string, NetworkTokenCapture>();
+
+  constructor(
+    private page: Page,
+    private plan: StepPlan,
+    private isToken: TokenCheck,
+    private diagnostics?: FlowDiagnostics,
+    private logger: Logger = silentLogger
+  ) {}
+
+  // Runs the phases until a token has been extracted; null when every strategy came up empty
+  async run(): Promise<ExtractedToken | null> {
+    // Network captures have to listen from the first navigation on
+    for (const step of this.plan.phases.flatMap(phase => phase.steps)) {
+      if (step.action === 'extractToken' && step.strategy === 'network') {
+        const capture = new NetworkTokenCapture(step.urlPatterns!, this.isToken, step.jsonKeys);
+        capture.attach(this.page);
+        this.captures.set(step.id, capture);
+      }
+    }
+
+    for (const phase of this.plan.phases) {
+      if (phase.skipWhenSignedIn && await this.isSignedIn()) {
+        this.logger.info(`✅ Already signed in - skipping "${phase.description}"`);
+        continue;
+      }
+      if (phase.steps.some(step => step.action === 'extractToken')) {
+        this.diagnostics?.stopScreenshots(`phase "${phase.id}" can show the token`);
+      }
+
+      for (const step of phase.steps) {
+        this.stepNumber++;
+        this.logger.info(`🔍 Step ${this.stepNumber}: ${step.description}...`);
+        const label = `${String(this.stepNumber).padStart(2, '0')}-${step.id}`;
+        try {
+          const extracted = await this.runStep(step);
+          await this.diagnostics?.capture(this.page, label);
+          if (step.message) {
+            this.logger.info(step.message);
+          }
+          if (extracted) {
+            this.logger.info(`✅ Token extracted via ${extracted.strategy}`);
+            return extracted;
+          }
+        } catch (error: any) {
+          await this.diagnostics?.capture(this.page, `${label}-failed`, error);
+          if (step.optional) {
+            this.logger.warn(`⚠️  Optional step "${step.id}" failed: ${error.message}`);
+            continue;
+          }
+          this.logger.warn(`⚠️  Automated flow failed at step "${step.id}": ${error.message}`);
+          if (phase.failureHint) {
+            this.logger.info(`👤 ${phase.failureHint}`);
+          }
+          if (phase.onFailure === 'abort') {
+            return null;
+          }
+          break;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  // Tokens the network captures saw, even when the flow failed before using them
+  seenTokens(): string[] {
+    return [...this.captures.values()].map(capture => capture.captured()).filter((token): token is string => !!token);
+  }
+
+  private async runStep(step: FlowStep): Promise<ExtractedToken | null> {
+    const timeout = step.timeout ?? DEFAULT_STEP_TIMEOUT;
+
+    switch (step.action) {
+      case 'navigate':
+        await this.page.goto(step.url!, { waitUntil: 'networkidle2', timeout });
+        return null;
+      case 'sleep':
+        await new Promise(resolve => setTimeout(resolve, step.ms ?? 1000));
+        return null;
+      case 'window':
+        await this.page.evaluate(WINDOW_SCRIPTS[step.window || 'maximize']);
+        return null;
+      case 'extractToken':
+        return await this.extractToken(step, timeout);
+    }
+
+    const selector = await this.waitForAny(step.selectors!, timeout);
+    if (step.action === 'click') {
+      await this.page.click(selector);
+    } else if (step.action === 'type') {
+      await this.page.type(selector, step.text || '');
+    } else if (step.action === 'focus') {
+      await this.page.focus(selector);
+    }
+    this.logger.info(`✅ ${step.description}`);
+    return null;
+  }
+
+  private async extractToken(step: FlowStep, timeout: number): Promise<ExtractedToken> {
+    const strategy = step.strategy!;
+    let token: string | null = null;
+    if (strategy === 'network') {
+      token = await this.captures.get(step.id)!.waitForToken(timeout);
+    } else if (strategy === 'dom') {
+      await this.waitForAny(step.selectors!, timeout);
+      token = await readTokenFromDom(this.page, step.selectors!, this.isToken);
+    } else {
+      token = await readTokenFromClipboard(this.page, this.isToken);
+    }
+
+    if (!token) {
+      throw new Error(`no token found via ${strategy}`);
+    }
+    return { token, strategy };
+  }
+
+  private async isSignedIn(): Promise<boolean> {
+    const selectors = this.plan.signedInSelectors || [];
+    if (selectors.length === 0) {
+      return false;
+    }
+    try {
+      await this.page.waitForSelector(selectors.join(', '), { timeout: SIGNED_IN_CHECK_TIMEOUT });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Waits for any alternate, then picks the highest-priority one that is present
+  private async waitForAny(selectors: string[], timeout: number): Promise<string> {
+    await this.page.waitForSelector(selectors.join(', '), { timeout });
+    for (const selector of selectors) {
+      if (await this.page.$(selector)) {
+        return selector;
+      }
+    }
+    return selectors[0];
+  }
+}
@@ -0,0 +1,331 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { PRIVATE_FILE_MODE, ensurePrivateDir, writeFileAtomic } from './files';
+import { formatShellExport } from './dotenv';
+import { StoreConfig, TokenRecord, TokenStore, createTokenStore } from './token-store';
+import { WebexAuthError } from './errors';
+import { DEFAULT_ENVIRONMENT, EnvironmentConfig, WebexEnvironment, findEnvironment } from './environments';
+import { TokenType, WebexIdentity } from './types';
+
+export const DEFAULT_PROFILE = 'default';
+
+export type { TokenType };
+
+export const TOKEN_TYPE_LABELS: Record<TokenType, string> = {
+  pat: 'Personal Access Token',
+  oauth: 'OAuth Access Token',
+  bot: 'Bot Token',
+  'service-app': 'Service App Token'
+};
+
+// What a service-app login was for, so it can be repeated once the refresh token expires
+export interface ServiceAppDetails {
+  applicationId: string;
+  targetOrgId: string;
+}
+
+export interface ProfileMetadata {
+  type?: TokenType;
+  identity?: WebexIdentity;
+  serviceApp?: ServiceAppDetails;
+  // The Webex environment the token was issued by; commercial when missing
+  environment?: string;
+  updatedAt?: string;
+}
+
+export interface ProfileSummary {
+  name: string;
+  isDefault: boolean;
+  hasToken: boolean;
+  expiresAt: number;
+  metadata: ProfileMetadata;
+}
+
+// How the browser login fills in the sign-in forms
+export interface SignInConfig {
+  defaultEmail?: string;
+  autofill?: boolean;
+  keepSession?: boolean;
+  // Email domain to identity-provider type, merged over the step plan's rules
+  identityProviders?: Record<string, string>;
+}
+
+interface CliConfig {
+  defaultProfile?: string;
+  store?: StoreConfig;
+  signIn?: SignInConfig;
+  environments?: Record<string, EnvironmentConfig>;
+}
+
+export class ProfileManager {
+  readonly configDir: string;
+  private profilesDir: string;
+  private configPath: string;
+
+  constructor(configDir: string = path.join(os.homedir(), '.webex-cli')) {
+    this.configDir = configDir;
+    this.profilesDir = path.join(configDir, 'profiles');
+    this.configPath = path.join(configDir, 'config.json');
+  }
+
+  // Explicit --profile wins, then $WEBEX_PROFILE, then the stored default pointer
+  resolveName(explicit?: string): string {
+    const name = explicit || process.env.WEBEX_PROFILE || this.getDefault();
+    this.assertValidName(name);
+    return name;
+  }
+
+  profileDir(name: string): string {
+    this.assertValidName(name);
+    return path.join(this.profilesDir, name);
+  }
+
+  envFilePath(name: string): string {
+    return path.join(this.profileDir(name), '.env');
+  }
+
+  envScriptPath(name: string): string {
+    return path.join(this.profileDir(name), 'webex-env.sh');
+  }
+
+  activeEnvScriptPath(): string {
+    return path.join(this.configDir, 'webex-env.sh');
+  }
+
+  ensure(name: string): string {
+    const dir = this.profileDir(name);
+    ensurePrivateDir(dir);
+    return dir;
+  }
+
+  // Removes the tokens from the store, the sourced script and the cached identity;
+  // the profile itself and unrelated keys in its .env stay
+  clearTokens(name: string): void {
+    this.openStore(name).clear();
+    this.writeEnvScript(name, null);
+    fs.rmSync(path.join(this.profileDir(name), 'profile.json'), { force: true });
+  }
+
+  // Chrome user-data directory kept between browser logins so SSO and MFA can be skipped
+  browserSessionDir(name: string): string {
+    return path.join(this.profileDir(name), 'browser-session');
+  }
+
+  clearBrowserSession(name: string): boolean {
+    const dir = this.browserSessionDir(name);
+    if (!fs.existsSync(dir)) {
+      return false;
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+    return true;
+  }
+
+  exists(name: string): boolean {
+    return fs.existsSync(this.profileDir(name));
+  }
+
+  getDefault(): string {
+    return this.readConfig().defaultProfile || DEFAULT_PROFILE;
+  }
+
+  setDefault(name: string): void {
+    if (!this.exists(name)) {
+      throw new WebexAuthError('usage', `Profile "${name}" does not exist. Run "webex-auth login --profile ${name}" first.`);
+    }
+    this.writeConfig({ ...this.readConfig(), defaultProfile: name });
+    this.writeActiveEnvScript();
+  }
+
+  delete(name: string): void {
+    if (!this.exists(name)) {
+      throw new WebexAuthError('usage', `Profile "${name}" does not exist`);
+    }
+    this.openStore(name).clear();
+    fs.rmSync(this.profileDir(name), { recursive: true, force: true });
+
+    if (this.getDefault() === name) {
+      const config = this.readConfig();
+      delete config.defaultProfile;
+      this.writeConfig(config);
+    }
+    this.writeActiveEnvScript();
+  }
+
+  list(): ProfileSummary[] {
+    if (!fs.existsSync(this.profilesDir)) {
+      return [];
+    }
+    const defaultName = this.getDefault();
+    return fs.readdirSync(this.profilesDir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .map(entry => {
+        let record: TokenRecord | null = null;
+        try {
+          record = this.openStore(entry.name).read();
+        } catch {
+          // A locked store (e.g. no passphrase in the environment) just shows as "no token"
+        }
+        return {
+          name: entry.name,
+          isDefault: entry.name === defaultName,
+          hasToken: !!record?.WEBEX_ACCESS_TOKEN,
+          expiresAt: parseInt(record?.WEBEX_TOKEN_EXPIRES_AT || '0', 10) || 0,
+          metadata: this.readMetadata(entry.name)
+        };
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  readMetadata(name: string): ProfileMetadata {
+    const metadataPath = path.join(this.profileDir(name), 'profile.json');
+    if (!fs.existsSync(metadataPath)) {
+      return {};
+    }
+    try {
+      return JSON.parse(fs.readFileSync(metadataPath, 'utf8'));
+    } catch {
+      return {};
+    }
+  }
+
+  writeMetadata(name: string, metadata: ProfileMetadata): void {
+    const dir = this.ensure(name);
+    writeFileAtomic(path.join(dir, 'profile.json'), JSON.stringify(metadata, null, 2) + '\n');
+  }
+
+  getStoreConfig(): StoreConfig {
+    return this.readConfig().store || { backend: 'plain' };
+  }
+
+  getSignInConfig(): SignInConfig {
+    return this.readConfig().signIn || {};
+  }
+
+  setSignInConfig(signIn: SignInConfig): void {
+    this.writeConfig({ ...this.readConfig(), signIn });
+  }
+
+  getCustomEnvironments(): Record<string, EnvironmentConfig> {
+    return this.readConfig().environments || {};
+  }
+
+  // Explicit --env wins, then $WEBEX_ENV, then the environment the profile logged in to
+  resolveEnvironment(name: string, explicit?: string): WebexEnvironment {
+    const environment = explicit || process.env.WEBEX_ENV || this.readMetadata(name).environment || DEFAULT_ENVIRONMENT;
+    return findEnvironment(environment, this.getCustomEnvironments());
+  }
+
+  setEnvironment(name: string, environment: string): void {
+    if (!this.exists(name)) {
+      throw new WebexAuthError('usage', `Profile "${name}" does not exist. Run "webex-auth login --profile ${name}" first.`);
+    }
+    findEnvironment(environment, this.getCustomEnvironments());
+    this.writeMetadata(name, { ...this.readMetadata(name), environment });
+  }
+
+  openStore(name: string, config: StoreConfig = this.getStoreConfig()): TokenStore {
+    return createTokenStore(config, this.profileDir(name), name);
+  }
+
+  // Moves every profile's tokens into the target backend, then switches config.json over
+  migrateStore(target: StoreConfig): string[] {
+    const source = this.getStoreConfig();
+    if (source.backend === target.backend && source.backend !== 'command') {
+      throw new WebexAuthError('usage', `Tokens are already kept in the ${source.backend} store`);
+    }
+    const migrated: string[] = [];
+
+    for (const { name } of this.list()) {
+      const from = this.openStore(name, source);
+      const record = from.read();
+      if (!record) {
+        continue;
+      }
+
+      const to = this.openStore(name, target);
+      to.write(record);
+      if (to.read()?.WEBEX_ACCESS_TOKEN !== record.WEBEX_ACCESS_TOKEN) {
+        throw new Error(`Verifying the migrated token for profile "${name}" failed; the ${source.backend} store was left untouched`);
+      }
+      migrated.push(name);
+    }
+
+    this.writeConfig({ ...this.readConfig(), store: target });
+    for (const name of migrated) {
+      this.openStore(name, source).clear();
+      this.writeEnvScript(name, this.openStore(name).read());
+    }
+    return migrated;
+  }
+
+  // Only the plaintext store exports tokens into the sourced script
+  writeEnvScript(name: string, record: TokenRecord | null): void {
+    const backend = this.getStoreConfig().backend;
+    let script = `#!/bin/bash\n# Webex CLI Token Environment Variables (profile: ${name})\n`;
+    if (backend === 'plain' && record) {
+      script += formatShellExport('WEBEX_ACCESS_TOKEN', record.WEBEX_ACCESS_TOKEN || '') + '\n' +
+        formatShellExport('WEBEX_REFRESH_TOKEN', record.WEBEX_REFRESH_TOKEN || '') + '\n' +
+        formatShellExport('WEBEX_TOKEN_EXPIRES_AT', record.WEBEX_TOKEN_EXPIRES_AT || '0') + '\n';
+    } else if (record) {
+      // Tokens stay out of this file; ask the CLI for them when the script is sourced
+      script += `# Tokens are kept in the ${backend} store and are not written to this file\n` +
+        `if command -v webex-auth >/dev/null 2>&1; then\n` +
+        `  eval "$(webex-auth token --profile ${name} --format env)"\n` +
+        `else\n` +
+        `  echo "webex-auth: not on PATH, cannot load tokens of profile ${name} from the ${backend} store" >&2\n` +
+        `fi\n`;
+    }
+    writeFileAtomic(this.envScriptPath(name), script);
+    if (!fs.existsSync(this.activeEnvScriptPath())) {
+      this.writeActiveEnvScript();
+    }
+  }
+
+  // ~/.webex-cli/webex-env.sh always loads whichever profile is the default
+  writeActiveEnvScript(): void {
+    const name = this.getDefault();
+    const script = `#!/bin/bash\n# Webex CLI Token Environment Variables (active profile: ${name})\n` +
+      `if [ -f "${this.envScriptPath(name)}" ]; then\n  source "${this.envScriptPath(name)}"\nfi\n`;
+    writeFileAtomic(this.activeEnvScriptPath(), script);
+  }
+
+  // Tokens stored before profiles existed become the "default" profile; the CLI runs this on start
+  migrateLegacyToken(): void {
+    const legacyEnvPath = path.join(this.configDir, '.env');
+    if (!fs.existsSync(legacyEnvPath) || this.exists(DEFAULT_PROFILE)) {
+      return;
+    }
+    this.ensure(DEFAULT_PROFILE);
+    fs.renameSync(legacyEnvPath, this.envFilePath(DEFAULT_PROFILE));
+    fs.chmodSync(this.envFilePath(DEFAULT_PROFILE), PRIVATE_FILE_MODE);
+
+    const legacyScriptPath = this.activeEnvScriptPath();
+    if (fs.existsSync(legacyScriptPath)) {
+      fs.renameSync(legacyScriptPath, this.envScriptPath(DEFAULT_PROFILE));
+      fs.chmodSync(this.envScriptPath(DEFAULT_PROFILE), PRIVATE_FILE_MODE);
+    }
+    this.writeActiveEnvScript();
+  }
+
+  private assertValidName(name: string): void {
+    if (!/^[A-Za-z0-9._-]+$/.test(name) || name === '.' || name === '..') {
+      throw new WebexAuthError('usage', `Invalid profile name "${name}" - use letters, digits, ".", "_" or "-"`);
+    }
+  }
+
+  private readConfig(): CliConfig {
+    if (!fs.existsSync(this.configPath)) {
+      return {};
+    }
+    try {
+      return JSON.parse(fs.readFileSync(this.configPath, 'utf8'));
+    } catch {
+      return {};
+    }
+  }
+
+  private writeConfig(config: CliConfig): void {
+    writeFileAtomic(this.configPath, JSON.stringify(config, null, 2) + '\n');
+  }
+}
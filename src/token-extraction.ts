@@ -0,0 +1,185 @@
+import type { HTTPRequest, HTTPResponse, Page } from 'puppeteer';
+import { ExtractionStrategy } from './types';
+
+export type { ExtractionStrategy };
+
+export const EXTRACTION_STRATEGIES: ExtractionStrategy[] = ['network', 'dom', 'clipboard'];
+
+const DEFAULT_JSON_KEYS = ['access_token', 'accessToken', 'token'];
+
+export interface ExtractedToken {
+  token: string;
+  strategy: ExtractionStrategy;
+}
+
+export type TokenCheck = (text: string) => boolean;
+
+function stripBearer(text: string): string {
+  return text.replace(/^Bearer\s+/i, '').trim();
+}
+
+// Heuristics that tell a Webex access token from the other text the portal shows
+export function isValidTokenFormat(text: string): boolean {
+  // Personal Access Tokens are typically long base64-like strings
+  const cleaned = text.replace(/^Bearer\s+/i, '').trim();
+  
+  // Webex Personal Access Tokens have a specific format
+  // Example: YzAwMTQ5NWQtOWM1ZC00ZDg1LTk4MWYtYTEwZTg3MDE2YTE5MjBlNjQ3NTAtYjgz_PF84_1eb65fdf-9643-417f-9974-ad72cae0e10f
+  
+  // Should be quite long (typically 100+ characters)
+  if (cleaned.length < 80) return false;
+  
+  // Should contain base64 characters including underscores and hyphens
+  const webexTokenPattern = /^[A-Za-z0-9+/_-]+$/;
+  if (!webexTokenPattern.test(cleaned)) return false;
+  
+  // Should not be JSON or contain JSON-like patterns
+  const excludeJSONPatterns = [
+    /trackingId/i,
+    /^\{.*\}$/,  // JSON objects
+    /^\[.*\]$/,  // JSON arrays
+    /^".*"$/,    // Quoted strings
+    /:\s*"/,     // JSON key-value pairs
+    /,\s*"/,     // JSON comma-separated values
+  ];
+  
+  for (const pattern of excludeJSONPatterns) {
+    if (pattern.test(cleaned)) return false;
+  }
+  
+  // Should not be common non-token strings or placeholders
+  const excludePatterns = [
+    /^example/i,
+    /^sample/i,
+    /^demo/i,
+    /^test/i,
+    /^your.token.here/i,
+    /^replace.with/i,
+    /^placeholder/i,
+    /^xxxxxxxx/i,
+    /^aaaaaa/i,
+    /^111111/i,
+    /^000000/i,
+    /^insert.your/i,
+    /^put.your/i,
+    /^add.your/i,
+    /^enter.your/i,
+    /^copy.your/i,
+    // Common placeholder patterns
+    /^[x]{10,}/i,  // Multiple x's
+    /^[a-z]{3,}[.][a-z]{3,}/i, // words with dots
+  ];
+  
+  for (const pattern of excludePatterns) {
+    if (pattern.test(cleaned)) return false;
+  }
+
+  // Webex tokens typically have mixed case and underscores/hyphens
+  const hasNumbers = /\d/.test(cleaned);
+  const hasUppercase = /[A-Z]/.test(cleaned);
+  const hasLowercase = /[a-z]/.test(cleaned);
+  const hasSpecialChars = /[_-]/.test(cleaned);
+  
+  if (!hasNumbers || !hasUppercase || !hasLowercase) {
+    return false;
+  }
+  
+  // Good sign if it has the typical Webex token structure
+  if (hasSpecialChars) {
+    return true;
+  }
+  
+  return true;
+}
+
+// Watches the portal's own API traffic: the token shows up as the Authorization
+// header of its Webex API calls and in the JSON of its token responses
+export class NetworkTokenCapture {
+  private token: string | null = null;
+
+  constructor(private urlPatterns: string[], private isToken: TokenCheck, private jsonKeys: string[] = DEFAULT_JSON_KEYS) {}
+
+  attach(page: Page): void {
+    page.on('request', request => this.inspectRequest(request));
+    page.on('response', response => {
+      this.inspectResponse(response).catch(() => {
+        // Bodies of redirects and aborted requests cannot be read
+      });
+    });
+  }
+
+  captured(): string | null {
+    return this.token;
+  }
+
+  // Resolves with the latest captured token, or null once the timeout passes
+  async waitForToken(timeout: number): Promise<string | null> {
+    const deadline = Date.now() + timeout;
+    while (!this.token && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 250));
+    }
+    return this.token;
+  }
+
+  private matches(url: string): boolean {
+    return this.urlPatterns.some(pattern => url.includes(pattern));
+  }
+
+  private inspectRequest(request: HTTPRequest): void {
+    if (!this.matches(request.url())) {
+      return;
+    }
+    const authorization = request.headers()['authorization'];
+    if (authorization && /^Bearer\s+/i.test(authorization) && this.isToken(authorization)) {
+      this.token = stripBearer(authorization);
+    }
+  }
+
+  private async inspectResponse(response: HTTPResponse): Promise<void> {
+    if (!this.matches(response.url()) || !(response.headers()['content-type'] || '').includes('json')) {
+      return;
+    }
+    const found = this.findToken(await response.json());
+    if (found) {
+      this.token = found;
+    }
+  }
+
+  private findToken(value: any): string | null {
+    if (!value || typeof value !== 'object') {
+      return null;
+    }
+    for (const key of this.jsonKeys) {
+      if (typeof value[key] === 'string' && this.isToken(value[key])) {
+        return stripBearer(value[key]);
+      }
+    }
+    for (const nested of Object.values(value)) {
+      const found = this.findToken(nested);
+      if (found) {
+        return found;
+      }
+    }
+    return null;
+  }
+}
+
+// Reads the token shown in the portal's token modal, from an input's value or an element's text
+export async function readTokenFromDom(page: Page, selectors: string[], isToken: TokenCheck): Promise<string | null> {
+  for (const selector of selectors) {
+    for (const element of await page.$$(selector)) {
+      const text = await element.evaluate(node =>
+        (node as any).value || node.getAttribute('value') || node.textContent || ''
+      );
+      if (isToken(text)) {
+        return stripBearer(text);
+      }
+    }
+  }
+  return null;
+}
+
+export async function readTokenFromClipboard(page: Page, isToken: TokenCheck): Promise<string | null> {
+  const text = await page.evaluate('navigator.clipboard.readText()') as string;
+  return text && isToken(text) ? stripBearer(text) : null;
+}
@@ -0,0 +1,883 @@
+import { AxiosInstance } from 'axios';
+import type { Browser, Page } from 'puppeteer';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProfileManager, ServiceAppDetails, TOKEN_TYPE_LABELS, TokenType } from './profiles';
+import { TokenRecord, TokenStore } from './token-store';
+import { ensurePrivateDir } from './files';
+import { FlowDiagnostics, describeToken } from './diagnostics';
+import {
+  BrowserAutomationError,
+  TokenError,
+  TokenExpiredError,
+  TokenNotFoundError,
+  ValidationError,
+  WebexAuthError,
+  errorCodeOf
+} from './errors';
+import { Logger, silentLogger } from './logger';
+import { AuditEntry, AuditLog, AuditSource, tokenFingerprint } from './audit-log';
+import { WebexEnvironment, findEnvironment } from './environments';
+import { NetworkOptions, browserNetworkSettings, createHttpClient, describeNetwork, networkOptionsFromEnv } from './network';
+import {
+  PortalFlowRunner,
+  ResolvedStepPlan,
+  SignInContext,
+  StepPlan,
+  detectIdentityProvider,
+  knownIdentityProviders,
+  limitStrategies,
+  loadStepPlan,
+  resolveVariables,
+  selectSteps
+} from './portal-flow';
+import { EXTRACTION_STRATEGIES, ExtractionStrategy, isValidTokenFormat } from './token-extraction';
+import { fetchIdentity, peopleMeUrl, toIdentity } from './identity';
+import { LoginResult, LogoutResult, OAuthClientCredentials, StoredToken, TokenResponse, WebexIdentity } from './types';
+import {
+  OAuthFlow,
+  OAuthOptions,
+  RefreshTokenRejectedError,
+  ServiceAppOptions,
+  exchangeServiceAppToken,
+  refreshAccessToken,
+  revokeAuthorization,
+  DEFAULT_CALLBACK_PORT,
+  DEFAULT_OAUTH_TIMEOUT_MS,
+  DEFAULT_SCOPE
+} from './oauth';
+
+export const DEFAULT_REFRESH_MARGIN_SECONDS = 300;
+export const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+// The developer portal's personal access tokens are valid for 12 hours from sign-in
+export const PAT_LIFETIME_SECONDS = 12 * 60 * 60;
+
+// Tokens copied from the portal; OAuth and service-app tokens come from their own login flows
+export type ImportTokenType = 'pat' | 'bot';
+export const IMPORT_TOKEN_TYPES: ImportTokenType[] = ['pat', 'bot'];
+
+export interface BrowserLoginOptions {
+  stepsFile?: string;
+  email?: string;
+  idp?: string;
+  autofill?: boolean;
+  keepSession?: boolean;
+  freshSession?: boolean;
+  strategies?: ExtractionStrategy[];
+  headless?: boolean;
+  browserPath?: string;
+  debugDir?: string;
+  trace?: boolean;
+}
+
+export interface SignInDetails extends SignInContext {
+  email: string | null;
+}
+
+export interface LogoutOptions {
+  revoke?: boolean;
+  revokeUrl?: string;
+  browser?: boolean;
+}
+
+export interface SaveTokenOptions {
+  type?: TokenType;
+  client?: OAuthClientCredentials;
+  serviceApp?: ServiceAppDetails;
+  // How the token was obtained, for the audit log
+  source?: AuditSource;
+  quiet?: boolean;
+}
+
+// How long a stored token lasts and how it is renewed, in words for info and whoami
+export interface TokenLifetime {
+  type: TokenType | null;
+  expiresAt: number;
+  refreshExpiresAt: number;
+  expired: boolean;
+  refreshable: boolean;
+  expiry: string;
+  renewal: string;
+}
+
+export interface TokenManagerOptions {
+  profile?: string;
+  // Defaults to ~/.webex-cli
+  configDir?: string;
+  // Defaults to the backend configured in config.json
+  store?: TokenStore;
+  // A name from the built-in or config.json environments, or a complete environment;
+  // defaults to $WEBEX_ENV, then the one the profile logged in to, then commercial
+  environment?: string | WebexEnvironment;
+  // Proxy and CA bundle; default to HTTPS_PROXY, NO_PROXY and WEBEX_AUTH_CA_FILE or NODE_EXTRA_CA_CERTS
+  network?: NetworkOptions;
+  // Used for every call to the Webex API and the OAuth endpoints; replaces the network settings
+  http?: AxiosInstance;
+  // Defaults to silence; the CLI passes one that prints
+  logger?: Logger;
+  // Defaults to audit.jsonl in the config directory
+  audit?: AuditLog;
+}
+
+export type OAuthLoginOptions = Pick<OAuthOptions, 'clientId' | 'clientSecret'> & Partial<Omit<OAuthOptions, 'http' | 'logger'>>;
+
+export type ServiceAppLoginOptions = Omit<ServiceAppOptions, 'exchangeUrl' | 'tokenUrl' | 'http'> & Partial<Pick<ServiceAppOptions, 'exchangeUrl' | 'tokenUrl'>>;
+
+export type LoginStrategy =
+  | ({ method: 'browser' } & BrowserLoginOptions)
+  | ({ method: 'oauth' } & OAuthLoginOptions)
+  | ({ method: 'service-app' } & ServiceAppLoginOptions)
+  // Without a type, a validated token is detected as a bot or personal token from its account
+  | { method: 'import'; token: string; validate?: boolean; type?: ImportTokenType };
+
+export interface GetTokenOptions {
+  marginSeconds?: number;
+  // false returns an expiring token as it is, and fails with TokenExpiredError once it has expired
+  refresh?: boolean;
+}
+
+// Library entry point: constructing it touches nothing on disk, nothing is printed unless a
+// logger is given, and failures are WebexAuthError subclasses instead of process exits
+export class TokenManager {
+  readonly profile: string;
+  readonly profiles: ProfileManager;
+  readonly environment: WebexEnvironment;
+  readonly network: NetworkOptions;
+  readonly audit: AuditLog;
+  private store: TokenStore;
+  private http: AxiosInstance;
+  private logger: Logger;
+  private validatedIdentity?: WebexIdentity;
+
+  constructor(options: TokenManagerOptions | string = {}) {
+    const resolved = typeof options === 'string' ? { profile: options } : options;
+    this.profiles = new ProfileManager(resolved.configDir);
+    this.profile = this.profiles.resolveName(resolved.profile);
+    this.store = resolved.store || this.profiles.openStore(this.profile);
+    this.environment = typeof resolved.environment === 'object'
+      ? resolved.environment
+      : resolved.environment
+        ? findEnvironment(resolved.environment, this.profiles.getCustomEnvironments())
+        : this.profiles.resolveEnvironment(this.profile);
+    this.network = resolved.network || networkOptionsFromEnv();
+    this.http = resolved.http || createHttpClient(this.network);
+    this.logger = resolved.logger || silentLogger;
+    this.audit = resolved.audit || new AuditLog(this.profiles.configDir);
+  }
+
+  // A valid access token, refreshed first when it expires within the margin
+  async getToken(options: GetTokenOptions = {}): Promise<string> {
+    return this.getValidAccessToken(options.marginSeconds, options.refresh);
+  }
+
+  // Successful logins are audited when the token is saved; failed ones here
+  async login(strategy: LoginStrategy): Promise<LoginResult> {
+    try {
+      return await this.runLogin(strategy);
+    } catch (error: any) {
+      this.recordAudit({ event: 'login', source: strategy.method, error });
+      throw error;
+    }
+  }
+
+  private async runLogin(strategy: LoginStrategy): Promise<LoginResult> {
+    switch (strategy.method) {
+      case 'browser': {
+        const { method, ...options } = strategy;
+        return this.getTokenAutomatically(options);
+      }
+      case 'oauth':
+        return this.getTokenWithOAuth({
+          scope: DEFAULT_SCOPE,
+          port: DEFAULT_CALLBACK_PORT,
+          authorizeUrl: this.environment.authorizeUrl,
+          tokenUrl: this.environment.tokenUrl,
+          openBrowser: true,
+          timeoutMs: DEFAULT_OAUTH_TIMEOUT_MS,
+          ...strategy
+        });
+      case 'service-app': {
+        const { method, ...options } = strategy;
+        return this.getServiceAppToken({ exchangeUrl: this.environment.serviceAppTokenUrl, tokenUrl: this.environment.tokenUrl, ...options });
+      }
+      case 'import':
+        return this.importToken(strategy.token, strategy.validate ?? true, strategy.type);
+    }
+  }
+
+  // Checks the token against the Webex API; throws ValidationError when it is rejected
+  async validate(): Promise<WebexIdentity> {
+    return this.whoami();
+  }
+
+  envScriptHint(): string {
+    return this.profile === this.profiles.getDefault()
+      ? this.profiles.activeEnvScriptPath().replace(os.homedir(), '~')
+      : this.profiles.envScriptPath(this.profile);
+  }
+
+  async saveToken(token: TokenResponse, options: SaveTokenOptions = {}): Promise<LoginResult> {
+    const previous = this.readStoredToken();
+    const type = options.type || previous?.type;
+    const expiresAt = token.expires_in > 0 ? Date.now() + (token.expires_in * 1000) : 0;
+    // A refresh that keeps the refresh token may not report its lifetime again
+    const refreshExpiresAt = token.refresh_token_expires_in ? Date.now() + token.refresh_token_expires_in * 1000
+      : token.refresh_token && previous?.refreshToken === token.refresh_token ? previous.refreshExpiresAt
+      : 0;
+    const record: TokenRecord = {
+      WEBEX_ACCESS_TOKEN: token.access_token,
+      WEBEX_REFRESH_TOKEN: token.refresh_token,
+      WEBEX_TOKEN_EXPIRES_AT: String(expiresAt)
+    };
+    if (type) {
+      record.WEBEX_TOKEN_TYPE = type;
+    }
+    if (refreshExpiresAt) {
+      record.WEBEX_REFRESH_TOKEN_EXPIRES_AT = String(refreshExpiresAt);
+    }
+
+    // OAuth and service-app logins also keep the client credentials needed to refresh later
+    if (options.client) {
+      record.WEBEX_CLIENT_ID = options.client.clientId;
+      record.WEBEX_CLIENT_SECRET = options.client.clientSecret;
+      record.WEBEX_OAUTH_TOKEN_URL = options.client.tokenUrl;
+    }
+
+    this.profiles.ensure(this.profile);
+    // Waiting here instead of inside write() keeps serve answering while another login holds the lock
+    await this.store.waitUntilWritable?.();
+    this.store.write(record);
+    
+    // Also create a shell script that can be sourced
+    this.profiles.writeEnvScript(this.profile, record);
+
+    // A fresh login replaces the identity; a refresh keeps the one already recorded
+    const metadata = this.profiles.readMetadata(this.profile);
+    if (options.type && previous && previous.accessToken !== token.access_token) {
+      this.recordAudit({
+        event: 'overwrite',
+        token: previous.accessToken,
+        tokenType: previous.type,
+        identity: metadata.identity,
+        detail: `replaced by ${tokenFingerprint(token.access_token)}`
+      });
+    }
+    const saved: LoginResult = {
+      profile: this.profile,
+      type: type || metadata.type,
+      expiresAt,
+      store: this.store.backend,
+      identity: options.type ? this.validatedIdentity : metadata.identity
+    };
+    this.profiles.writeMetadata(this.profile, {
+      type: saved.type,
+      identity: saved.identity,
+      serviceApp: options.type ? options.serviceApp : metadata.serviceApp,
+      environment: options.type ? this.environment.name : metadata.environment,
+      updatedAt: new Date().toISOString()
+    });
+    this.recordAudit({
+      event: options.source === 'refresh' ? 'refresh' : 'login',
+      source: options.source,
+      token: token.access_token,
+      tokenType: saved.type,
+      identity: saved.identity
+    });
+
+    if (options.quiet) {
+      return saved;
+    }
+    
+    this.logger.info(`✅ Token saved to ${this.store.location()} (profile: ${this.profile}, ${this.store.backend} store)`);
+    if (this.store.backend === 'plain') {
+      this.logger.info(`💡 To use the token in current session:`);
+      this.logger.info(`   source ${this.envScriptHint()}`);
+      this.logger.info(`💡 To use permanently, add this to your shell profile (~/.bashrc, ~/.zshrc):`);
+      this.logger.info(`   source ${this.envScriptHint()}`);
+    }
+    return saved;
+  }
+
+  // A log that cannot be written must not fail the operation it records
+  private recordAudit(entry: Omit<AuditEntry, 'profile' | 'environment'>): void {
+    try {
+      this.audit.record({ profile: this.profile, environment: this.environment.name, ...entry });
+    } catch (error: any) {
+      this.logger.warn(`⚠️  Could not write to the audit log ${this.audit.path}: ${error.message}`);
+    }
+  }
+
+  storeDescription(): string {
+    return `${this.store.backend} (${this.store.location()})`;
+  }
+
+  readStoredToken(): StoredToken | null {
+    const values = this.store.read();
+    if (!values?.WEBEX_ACCESS_TOKEN) {
+      return null;
+    }
+
+    const stored: StoredToken = {
+      // Tokens saved before the type was kept in the store only have it in profile.json
+      type: (values.WEBEX_TOKEN_TYPE as TokenType) || this.profiles.readMetadata(this.profile).type,
+      accessToken: values.WEBEX_ACCESS_TOKEN,
+      refreshToken: values.WEBEX_REFRESH_TOKEN || '',
+      expiresAt: parseInt(values.WEBEX_TOKEN_EXPIRES_AT || '0', 10) || 0,
+      refreshExpiresAt: parseInt(values.WEBEX_REFRESH_TOKEN_EXPIRES_AT || '0', 10) || 0
+    };
+    if (values.WEBEX_CLIENT_ID && values.WEBEX_CLIENT_SECRET) {
+      stored.client = {
+        clientId: values.WEBEX_CLIENT_ID,
+        clientSecret: values.WEBEX_CLIENT_SECRET,
+        tokenUrl: values.WEBEX_OAUTH_TOKEN_URL || this.environment.tokenUrl
+      };
+    }
+    return stored;
+  }
+
+  // Revokes OAuth tokens where possible, then deletes everything stored for the profile.
+  // Local cleanup happens even when revocation fails, so a dead server cannot block offboarding.
+  async logout(options: LogoutOptions = {}): Promise<LogoutResult> {
+    const result: LogoutResult = { profile: this.profile, hadToken: false, revocation: 'skipped', browserSession: false };
+    let stored: StoredToken | null = null;
+    let failure: any;
+    try {
+      stored = this.readStoredToken();
+      result.hadToken = !!stored;
+    } catch (error: any) {
+      // e.g. an encrypted store without its key: nothing can be revoked, but the files can still go
+      result.hadToken = true;
+      failure = error;
+    }
+
+    if (stored && options.revoke !== false) {
+      if (!stored.client) {
+        // Personal Access Tokens and bot tokens can only be regenerated in the developer portal
+        result.revocation = 'not_supported';
+      } else {
+        try {
+          let accessToken = stored.accessToken;
+          // The access token authenticates the revocation, so an expired one is renewed first
+          if (stored.refreshToken && this.needsRefresh(stored, 0)) {
+            accessToken = (await this.refreshToken()).access_token;
+          }
+          const personId = this.getCachedIdentity()?.id || (await fetchIdentity(accessToken, this.http, this.environment.apiBaseUrl)).id;
+          await revokeAuthorization(stored.client.clientId, accessToken, personId, options.revokeUrl || this.environment.revokeUrl, this.http);
+          result.revocation = 'revoked';
+        } catch (error: any) {
+          result.revocation = 'failed';
+          result.revocationError = error.message;
+        }
+      }
+    }
+
+    // Read before clearing, which deletes the cached identity
+    const identity = this.getCachedIdentity();
+    try {
+      this.profiles.clearTokens(this.profile);
+    } catch (error: any) {
+      failure ??= error;
+    }
+    if (failure) {
+      result.error = { code: errorCodeOf(failure), message: failure.message };
+    }
+    if (result.hadToken) {
+      this.recordAudit({
+        event: 'logout',
+        token: stored?.accessToken,
+        tokenType: stored?.type,
+        identity,
+        detail: `revocation ${result.revocation}`,
+        error: failure
+      });
+    }
+    if (options.browser) {
+      result.browserSession = this.profiles.clearBrowserSession(this.profile);
+    }
+    return result;
+  }
+
+  getCachedIdentity(): WebexIdentity | undefined {
+    return this.profiles.readMetadata(this.profile).identity;
+  }
+
+  // Looks the token's account up live and refreshes the identity cached with the profile
+  async whoami(): Promise<WebexIdentity> {
+    let accessToken: string | undefined;
+    try {
+      accessToken = await this.getValidAccessToken();
+      const identity = await fetchIdentity(accessToken, this.http, this.environment.apiBaseUrl);
+      this.profiles.writeMetadata(this.profile, { ...this.profiles.readMetadata(this.profile), identity });
+      this.recordAudit({ event: 'validate', token: accessToken, tokenType: this.readStoredToken()?.type, identity });
+      return identity;
+    } catch (error: any) {
+      const stored = this.readStoredToken();
+      this.recordAudit({ event: 'validate', token: accessToken || stored?.accessToken, tokenType: stored?.type, error });
+      throw error;
+    }
+  }
+
+  needsRefresh(stored: StoredToken, marginSeconds: number = DEFAULT_REFRESH_MARGIN_SECONDS): boolean {
+    // An expiry of 0 means the token never expires (bot tokens) or its lifetime was not recorded
+    return stored.expiresAt > 0 && stored.expiresAt - marginSeconds * 1000 <= Date.now();
+  }
+
+  describeLifetime(stored: StoredToken): TokenLifetime {
+    const type = stored.type || null;
+    const expired = stored.expiresAt > 0 && stored.expiresAt < Date.now();
+    let expiry = `${new Date(stored.expiresAt).toLocaleString()}${expired ? ' (EXPIRED)' : ''}`;
+    if (stored.expiresAt === 0) {
+      expiry = type === 'bot' ? 'Never (bot tokens do not expire)'
+        : type === 'pat' ? 'Not recorded (personal access tokens are valid for 12 hours from sign-in)'
+        : 'Not recorded';
+    }
+
+    let renewal = this.renewalHint(type);
+    if (stored.refreshToken) {
+      const until = stored.refreshExpiresAt > 0 ? ` until ${new Date(stored.refreshExpiresAt).toLocaleString()}` : '';
+      renewal = `Refreshed automatically with the refresh token${until}; afterwards: ${renewal}`;
+    }
+    return {
+      type,
+      expiresAt: stored.expiresAt,
+      refreshExpiresAt: stored.refreshExpiresAt,
+      expired,
+      refreshable: !!stored.refreshToken,
+      expiry,
+      renewal
+    };
+  }
+
+  // How to get a new token of this type once it can no longer be refreshed
+  renewalHint(type: TokenType | null | undefined): string {
+    switch (type) {
+      case 'bot':
+        return 'bot tokens cannot be refreshed; regenerate the token on the bot\'s page in the developer portal and import it with "webex-auth login --token <token> --type bot"';
+      case 'pat':
+        return 'personal access tokens cannot be refreshed; run "webex-auth login" again';
+      case 'oauth':
+        return 'run "webex-auth login --oauth" again';
+      case 'service-app': {
+        const serviceApp = this.profiles.readMetadata(this.profile).serviceApp;
+        return serviceApp
+          ? `run "webex-auth login --service-app ${serviceApp.applicationId} --org-id ${serviceApp.targetOrgId} --auth-profile <owner>" again`
+          : 'run "webex-auth login --service-app" again';
+      }
+      default:
+        return 'run "webex-auth login" again';
+    }
+  }
+
+  // Successful refreshes are audited when the token is saved; failed ones here
+  async refreshToken(client?: Partial<OAuthClientCredentials>): Promise<TokenResponse> {
+    try {
+      return await this.refreshStoredToken(client);
+    } catch (error: any) {
+      const stored = this.readStoredToken();
+      this.recordAudit({ event: 'refresh', source: 'refresh', token: stored?.accessToken, tokenType: stored?.type, error });
+      throw error;
+    }
+  }
+
+  private async refreshStoredToken(client?: Partial<OAuthClientCredentials>): Promise<TokenResponse> {
+    const stored = this.readStoredToken();
+    if (!stored) {
+      throw new TokenNotFoundError(`No token found for profile "${this.profile}". Run "webex-auth login" first.`);
+    }
+    if (!stored.refreshToken) {
+      throw new TokenError('refresh_failed', `The stored token has no refresh token - ${this.renewalHint(stored.type)}`);
+    }
+
+    // Explicit values win over the ones stored at login, which win over the environment
+    const clientId = client?.clientId || stored.client?.clientId || process.env.WEBEX_CLIENT_ID;
+    const clientSecret = client?.clientSecret || stored.client?.clientSecret || process.env.WEBEX_CLIENT_SECRET;
+    if (!clientId || !clientSecret) {
+      throw new TokenError('refresh_failed', 'Refreshing requires the OAuth client ID and secret (--client-id/--client-secret or WEBEX_CLIENT_ID/WEBEX_CLIENT_SECRET)');
+    }
+    const resolved: OAuthClientCredentials = {
+      clientId,
+      clientSecret,
+      tokenUrl: client?.tokenUrl || stored.client?.tokenUrl || this.environment.tokenUrl
+    };
+
+    let token: TokenResponse;
+    try {
+      token = await refreshAccessToken(resolved, stored.refreshToken, this.http);
+    } catch (error: any) {
+      if (error instanceof RefreshTokenRejectedError && stored.type === 'service-app') {
+        throw new RefreshTokenRejectedError(`The service-app refresh token was rejected; it has probably expired - ${this.renewalHint(stored.type)}`);
+      }
+      throw error;
+    }
+    await this.saveToken(token, { client: resolved, source: 'refresh', quiet: true });
+    return token;
+  }
+
+  async getValidAccessToken(marginSeconds: number = DEFAULT_REFRESH_MARGIN_SECONDS, allowRefresh: boolean = true): Promise<string> {
+    const stored = this.readStoredToken();
+    if (!stored) {
+      throw new TokenNotFoundError(`No token found for profile "${this.profile}". Run "webex-auth login" first.`);
+    }
+    if (!this.needsRefresh(stored, marginSeconds)) {
+      return stored.accessToken;
+    }
+    // Inside the margin but not yet expired: still usable when it cannot or may not be refreshed
+    if ((!stored.refreshToken || !allowRefresh) && stored.expiresAt > Date.now()) {
+      return stored.accessToken;
+    }
+    if (!stored.refreshToken) {
+      throw new TokenExpiredError(`The stored token has expired and cannot be refreshed - ${this.renewalHint(stored.type)}`);
+    }
+    if (!allowRefresh) {
+      throw new TokenExpiredError('The stored token has expired and refreshing was disabled.');
+    }
+
+    const token = await this.refreshToken();
+    return token.access_token;
+  }
+
+  // Resolves false when the API rejects the token; throws when the API cannot be reached
+  async validatePersonalToken(token: string): Promise<boolean> {
+    try {
+      this.logger.info(`   📡 Making API call to ${peopleMeUrl(this.environment.apiBaseUrl)}`);
+      const response = await this.http.get(peopleMeUrl(this.environment.apiBaseUrl), {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+      this.logger.info(`   ✅ API Response: ${response.status} ${response.statusText}`);
+      if (response.data && response.data.displayName) {
+        this.logger.info(`   👤 Authenticated as: ${response.data.displayName}`);
+      }
+      this.validatedIdentity = toIdentity(response.data);
+      return response.status === 200;
+    } catch (error: any) {
+      this.logger.warn(`   ❌ API Error: ${error.response?.status || 'Unknown'} ${error.response?.statusText || error.message}`);
+      if (error.response?.data) {
+        this.logger.info(`   📋 Error details: ${JSON.stringify(error.response.data, null, 2)}`);
+      }
+      if (!error.response) {
+        throw new WebexAuthError('network_failure', `Could not reach the Webex API: ${error.message}`);
+      }
+      return false;
+    }
+  }
+
+  displayPersonalTokenInfo(token: string): void {
+    this.logger.info('\n🎉 Personal Access Token extracted and validated!');
+    this.logger.info(`📋 Token Type: ${TOKEN_TYPE_LABELS.pat}`);
+    this.logger.info(`⏰ Expires: ${new Date(Date.now() + PAT_LIFETIME_SECONDS * 1000).toLocaleString()} (personal access tokens cannot be refreshed)`);
+    this.logger.info(`🔑 Access Token: ${token.substring(0, 20)}...`);
+  }
+
+  displayOAuthTokenInfo(token: TokenResponse): void {
+    this.logger.info('\n🎉 OAuth tokens obtained!');
+    this.logger.info(`📋 Token Type: ${token.token_type}`);
+    if (token.expires_in > 0) {
+      this.logger.info(`⏰ Expires: ${new Date(Date.now() + token.expires_in * 1000).toLocaleString()}`);
+    }
+    this.logger.info(`🔑 Access Token: ${token.access_token.substring(0, 20)}...`);
+    if (token.refresh_token) {
+      this.logger.info(`🔄 Refresh Token: ${token.refresh_token.substring(0, 20)}...`);
+    }
+  }
+
+  // Without a type, a validated token's account tells bots from people; unvalidated ones count as personal
+  async importToken(rawToken: string, validate: boolean = true, type?: ImportTokenType): Promise<LoginResult> {
+    const token = rawToken.replace(/^Bearer\s+/i, '').trim();
+    if (!isValidTokenFormat(token)) {
+      throw new ValidationError('The provided value does not look like a Webex access token');
+    }
+
+    if (validate) {
+      this.logger.info('🔍 Validating token with Webex API...');
+      const isValid = await this.validatePersonalToken(token);
+      if (!isValid) {
+        throw new ValidationError('The Webex API rejected the token');
+      }
+    } else {
+      this.logger.warn('⚠️  Skipping validation with the Webex API (--no-validate)');
+    }
+
+    const detected: ImportTokenType = validate && this.validatedIdentity?.type === 'bot' ? 'bot' : 'pat';
+    if (type && validate && type !== detected) {
+      this.logger.warn(`⚠️  The token belongs to a ${detected === 'bot' ? 'bot' : 'person'}, but it is stored as a ${TOKEN_TYPE_LABELS[type]} (--type)`);
+    }
+    const tokenType = type || detected;
+
+    this.logger.info(`\n🎉 ${TOKEN_TYPE_LABELS[tokenType]} imported!`);
+    this.logger.info(`📋 Token Type: ${TOKEN_TYPE_LABELS[tokenType]}`);
+    // The issue time of an imported personal token is unknown, so no expiry is recorded
+    this.logger.info(`⏰ Expires: ${tokenType === 'bot' ? 'Never' : 'Not recorded (personal access tokens are valid for 12 hours from sign-in)'}`);
+    this.logger.info(`🔑 Access Token: ${token.substring(0, 20)}...`);
+    return this.saveToken({
+      access_token: token,
+      refresh_token: '',
+      expires_in: 0,
+      token_type: 'Bearer'
+    }, { type: tokenType, source: 'import' });
+  }
+
+  async getServiceAppToken(options: ServiceAppOptions): Promise<LoginResult> {
+    this.logger.info(`🔐 Exchanging a token for service app ${options.applicationId} in org ${options.targetOrgId}...`);
+    const token = await exchangeServiceAppToken({ http: this.http, ...options });
+
+    this.logger.info('🔍 Looking up the service app\'s account...');
+    try {
+      await this.validatePersonalToken(token.access_token);
+    } catch (error: any) {
+      this.logger.warn(`⚠️  Could not look up the account: ${error.message}`);
+    }
+
+    this.displayOAuthTokenInfo(token);
+    const saved = await this.saveToken(token, {
+      type: 'service-app',
+      source: 'service-app',
+      client: { clientId: options.clientId, clientSecret: options.clientSecret, tokenUrl: options.tokenUrl },
+      serviceApp: { applicationId: options.applicationId, targetOrgId: options.targetOrgId }
+    });
+
+    this.logger.info('\n🎉 Service app token ready. "webex-auth refresh" renews it with its refresh token.');
+    return saved;
+  }
+
+  async getTokenWithOAuth(options: OAuthOptions): Promise<LoginResult> {
+    this.logger.info('🔐 Starting OAuth 2.0 authorization-code flow...');
+    const flow = new OAuthFlow({ http: this.http, logger: this.logger, ...options });
+    const token = await flow.run();
+
+    // The identity is informational here; the token endpoint already vouched for the token
+    this.logger.info('🔍 Looking up the authorized account...');
+    try {
+      await this.validatePersonalToken(token.access_token);
+    } catch (error: any) {
+      this.logger.warn(`⚠️  Could not look up the account: ${error.message}`);
+    }
+
+    this.displayOAuthTokenInfo(token);
+    const saved = await this.saveToken(token, {
+      type: 'oauth',
+      source: 'oauth',
+      client: { clientId: options.clientId, clientSecret: options.clientSecret, tokenUrl: options.tokenUrl }
+    });
+
+    this.logger.info('\n🎉 OAuth setup complete! Your access token is ready to use.');
+    return saved;
+  }
+
+  stepPlanOverridePath(): string {
+    return path.join(this.profiles.configDir, 'portal-steps.json');
+  }
+
+  loadStepPlan(stepsFile?: string): ResolvedStepPlan {
+    if (stepsFile && !fs.existsSync(stepsFile)) {
+      throw new WebexAuthError('usage', `Step file ${stepsFile} does not exist`);
+    }
+    return loadStepPlan(stepsFile || this.stepPlanOverridePath(), this.environment.portalUrl);
+  }
+
+  // --email wins, then the email cached with this profile's identity, then the configured default
+  resolveSignIn(plan: StepPlan, options: BrowserLoginOptions = {}): SignInDetails {
+    if (options.email && !EMAIL_PATTERN.test(options.email)) {
+      throw new WebexAuthError('usage', `"${options.email}" is not an email address`);
+    }
+
+    const known = knownIdentityProviders(plan);
+    if (options.idp && !known.includes(options.idp)) {
+      throw new WebexAuthError('usage', `Unknown identity-provider type "${options.idp}" - use ${known.join(', ')}`);
+    }
+
+    const config = this.profiles.getSignInConfig();
+    const email = options.email || this.getCachedIdentity()?.emails[0] || config.defaultEmail || null;
+    const autofill = !!email && options.autofill !== false && (!!options.email || config.autofill !== false);
+    const idp = options.idp || detectIdentityProvider(email, { ...plan.identityProviders, ...config.identityProviders });
+    return { email, idp, autofill };
+  }
+
+  async getTokenAutomatically(options: BrowserLoginOptions = {}): Promise<LoginResult> {
+    const { plan, source } = this.loadStepPlan(options.stepsFile);
+    const signIn = this.resolveSignIn(plan, options);
+
+    this.logger.info('🤖 Starting fully automated token extraction...');
+    this.logger.info('📋 This will:');
+    this.logger.info('   1. Launch a browser');
+    this.logger.info('   2. Navigate to Webex developer portal');
+    this.logger.info('   3. Wait for you to sign in');
+    this.logger.info('   4. Automatically extract your Personal Access Token');
+    this.logger.info('   5. Save and configure the token');
+    this.logger.info('');
+    this.logger.warn('⚠️  You will need to sign in to Webex when the browser opens');
+    this.logger.info(`🗺️  Using portal steps revision ${plan.revision} (${source})`);
+    this.logger.info('');
+
+    if (options.freshSession && this.profiles.clearBrowserSession(this.profile)) {
+      this.logger.info('🧹 Cleared the saved browser session');
+    }
+    const keepSession = options.keepSession ?? this.profiles.getSignInConfig().keepSession ?? false;
+    let userDataDir: string | undefined;
+    if (keepSession) {
+      userDataDir = this.profiles.browserSessionDir(this.profile);
+      ensurePrivateDir(userDataDir);
+      this.logger.info(`🍪 Keeping the browser session in ${userDataDir}`);
+    }
+
+    if (options.browserPath && !fs.existsSync(options.browserPath)) {
+      throw new WebexAuthError('usage', `Browser executable ${options.browserPath} does not exist`);
+    }
+    if (options.headless) {
+      this.logger.info('🙈 Running headless - sign-in cannot be completed by hand, so this needs a kept, still signed-in session');
+    }
+    const diagnostics = options.debugDir ? new FlowDiagnostics(options.debugDir) : undefined;
+    if (diagnostics) {
+      this.logger.info(`🩺 Recording diagnostics in ${diagnostics.runDir}`);
+      diagnostics.note(`Portal steps revision ${plan.revision} (${source}), identity provider ${signIn.idp}, auto-fill ${signIn.autofill ? 'on' : 'off'}`);
+    }
+
+    let browser: Browser | undefined;
+    let page: Page | undefined;
+    let runner: PortalFlowRunner | undefined;
+    let token = '';
+    let closingBrowser = false;
+    let userClosedBrowser = false;
+    try {
+      // Dynamic import for Puppeteer
+      const puppeteer = await import('puppeteer');
+      
+      const network = browserNetworkSettings(this.network);
+      if (network.args.length > 0) {
+        this.logger.info(`🌐 Browser network: ${describeNetwork(this.network)}`);
+      }
+      this.logger.info('🚀 Launching browser...');
+      browser = await puppeteer.default.launch({ 
+        headless: !!options.headless, // Visible by default so user can sign in
+        executablePath: options.browserPath,
+        defaultViewport: null,
+        userDataDir,
+        args: [
+          '--disable-features=VizDisplayCompositor',
+          '--disable-blink-features=AutomationControlled',
+          ...network.args
+        ]
+      });
+      browser.on('disconnected', () => {
+        userClosedBrowser = !closingBrowser;
+      });
+
+      page = await browser.newPage();
+      if (network.credentials) {
+        await page.authenticate(network.credentials);
+      }
+      if (diagnostics && options.trace) {
+        await diagnostics.startTrace(page);
+      }
+
+      // Clipboard access is only needed when that strategy is part of the plan
+      const steps = limitStrategies(selectSteps(plan, signIn), options.strategies || EXTRACTION_STRATEGIES);
+      if (steps.phases.some(phase => phase.steps.some(step => step.strategy === 'clipboard'))) {
+        const context = browser.defaultBrowserContext();
+        await context.overridePermissions(new URL(plan.portalUrl).origin, ['clipboard-read', 'clipboard-write']);
+      }
+
+      if (signIn.autofill) {
+        this.logger.info(`🤖 Starting automated login for: ${signIn.email} (${signIn.idp})`);
+      } else {
+        this.logger.info('👤 Email auto-fill is off - please sign in yourself when the browser opens');
+        if (!signIn.email) {
+          this.logger.info('💡 Use --email or `webex-auth sign-in set-email <address>` to have it filled in');
+        }
+      }
+
+      runner = new PortalFlowRunner(
+        page,
+        resolveVariables(steps, { email: signIn.email || '', apiBaseUrl: this.environment.apiBaseUrl }),
+        isValidTokenFormat,
+        diagnostics,
+        this.logger
+      );
+      const extracted = await runner.run();
+      await diagnostics?.stopTrace(page);
+
+      closingBrowser = true;
+      await browser.close();
+
+      if (!extracted) {
+        this.logger.info('⏰ Timeout: Could not automatically find the Personal Access Token');
+        this.logger.info('💡 This might happen if:');
+        this.logger.info('   • You haven\'t signed in yet');
+        this.logger.info('   • The token section hasn\'t loaded');
+        this.logger.info('   • The page structure has changed');
+        this.logger.info('');
+        this.logger.info('🔄 Please try running the command again and make sure to:');
+        this.logger.info('   1. Sign in to your Webex account');
+        this.logger.info('   2. Navigate to or scroll down to find the "Your Personal Access Token" section');
+        throw new WebexAuthError('timeout', 'Could not find the Personal Access Token before the browser flow timed out');
+      }
+
+      this.logger.info(`🎉 Token found automatically (via ${extracted.strategy})!`);
+      
+      // Clean the token (remove any Bearer prefix or extra whitespace)
+      token = extracted.token.replace(/^Bearer\s+/i, '').trim();
+
+      diagnostics?.note(`Extracted token via ${extracted.strategy}: ${describeToken(token)}`);
+
+      // Validate the token
+      this.logger.info('🔍 Validating token with Webex API...');
+      const isValid = await this.validatePersonalToken(token);
+      if (!isValid) {
+        this.logger.warn('❌ The extracted token appears to be invalid');
+        this.logger.info('💡 This could mean:');
+        this.logger.info('   • The wrong text was detected as a token');
+        this.logger.info('   • Network issues prevented validation');
+        this.logger.info('');
+        this.logger.info('🔄 Please try running the command again');
+        throw new ValidationError('The extracted token was rejected by the Webex API');
+      }
+
+      // Save the token
+      const patTokenData = {
+        access_token: token,
+        refresh_token: '',
+        expires_in: PAT_LIFETIME_SECONDS,
+        token_type: 'Bearer'
+      };
+
+      this.displayPersonalTokenInfo(token);
+      const saved = await this.saveToken(patTokenData, { type: 'pat', source: 'browser' });
+      
+      this.logger.info('\n🎉 Fully automated setup complete! Your Personal Access Token is ready to use.');
+      return { ...saved, extractedWith: extracted.strategy };
+
+    } catch (error: any) {
+      if (error instanceof WebexAuthError) {
+        throw error;
+      }
+      if (userClosedBrowser) {
+        throw new WebexAuthError('user_cancelled', 'The browser was closed before the token was extracted');
+      }
+      diagnostics?.note(`Browser automation failed: ${error.stack || error.message}`);
+      this.logger.warn(`❌ Browser automation failed: ${error.message}`);
+      this.logger.info('💡 Common issues and solutions:');
+      this.logger.info('   • Chrome/Chromium not installed: Install Google Chrome');
+      this.logger.info('   • Permission denied: Check browser permissions');
+      this.logger.info('   • Network issues: Check internet connection');
+      this.logger.info('');
+      this.logger.info('🔄 Please fix the issue and try again');
+      throw new BrowserAutomationError(`Browser automation failed: ${error.message}`);
+    } finally {
+      if (page) {
+        await diagnostics?.stopTrace(page);
+      }
+      // A failed step must not leave Chrome running in a library host or serve
+      if (browser?.connected) {
+        closingBrowser = true;
+        await browser.close().catch(() => {});
+      }
+      if (diagnostics) {
+        // Also after a failure: the pages captured so far may show a token the flow never used
+        diagnostics.scrub([token, ...(runner?.seenTokens() || [])]);
+        this.logger.info(`📁 Diagnostics saved in ${diagnostics.runDir}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,240 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { execSync } from 'child_process';
+import { writeFileAtomic } from './files';
+import { readDotenv, updateDotenv, waitForFileLock } from './dotenv';
+import { WebexAuthError } from './errors';
+
+// Keys owned by webex-auth; anything else in a profile's .env belongs to the user
+export const TOKEN_KEYS = [
+  'WEBEX_TOKEN_TYPE',
+  'WEBEX_ACCESS_TOKEN',
+  'WEBEX_REFRESH_TOKEN',
+  'WEBEX_TOKEN_EXPIRES_AT',
+  'WEBEX_REFRESH_TOKEN_EXPIRES_AT',
+  'WEBEX_CLIENT_ID',
+  'WEBEX_CLIENT_SECRET',
+  'WEBEX_OAUTH_TOKEN_URL'
+];
+
+export type TokenRecord = Record<string, string>;
+
+export type StoreBackend = 'plain' | 'encrypted' | 'command';
+
+export const STORE_BACKENDS: StoreBackend[] = ['plain', 'encrypted', 'command'];
+
+export interface CommandStoreConfig {
+  get: string;
+  set: string;
+  delete: string;
+}
+
+export interface StoreConfig {
+  backend: StoreBackend;
+  commands?: CommandStoreConfig;
+}
+
+export interface TokenStore {
+  readonly backend: StoreBackend;
+  location(): string;
+  read(): TokenRecord | null;
+  write(record: TokenRecord): void;
+  clear(): void;
+  // Resolves once write() will not have to block waiting for another process
+  waitUntilWritable?(): Promise<void>;
+}
+
+export class PlaintextFileStore implements TokenStore {
+  readonly backend = 'plain';
+
+  constructor(private envFilePath: string) {}
+
+  location(): string {
+    return this.envFilePath;
+  }
+
+  read(): TokenRecord | null {
+    const record = readDotenv(this.envFilePath)?.toRecord(TOKEN_KEYS) || {};
+    return Object.keys(record).length > 0 ? record : null;
+  }
+
+  // Only the token keys change; comments, ordering and the user's own variables stay
+  write(record: TokenRecord): void {
+    updateDotenv(this.envFilePath, document => {
+      for (const key of TOKEN_KEYS) {
+        if (record[key] === undefined) {
+          document.delete(key);
+        } else {
+          document.set(key, record[key]);
+        }
+      }
+    });
+  }
+
+  clear(): void {
+    if (fs.existsSync(this.envFilePath)) {
+      updateDotenv(this.envFilePath, document => TOKEN_KEYS.forEach(key => document.delete(key)));
+    }
+  }
+
+  waitUntilWritable(): Promise<void> {
+    return waitForFileLock(this.envFilePath);
+  }
+}
+
+interface EncryptedPayload {
+  version: 1;
+  kdf: 'none' | 'scrypt';
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export class EncryptedFileStore implements TokenStore {
+  readonly backend = 'encrypted';
+
+  constructor(private filePath: string, private env: NodeJS.ProcessEnv = process.env) {}
+
+  location(): string {
+    return this.filePath;
+  }
+
+  read(): TokenRecord | null {
+    if (!fs.existsSync(this.filePath)) {
+      return null;
+    }
+
+    let payload: EncryptedPayload;
+    try {
+      payload = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    } catch (error: any) {
+      throw new WebexAuthError('error', `Could not read ${this.filePath}: ${error.message}`);
+    }
+    const key = this.deriveKey(payload.kdf, Buffer.from(payload.salt, 'base64'));
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(payload.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(payload.tag, 'base64'));
+      const plaintext = Buffer.concat([decipher.update(Buffer.from(payload.data, 'base64')), decipher.final()]);
+      return JSON.parse(plaintext.toString('utf8'));
+    } catch {
+      throw new WebexAuthError('error', `Could not decrypt ${this.filePath} - wrong WEBEX_AUTH_STORE_KEY or WEBEX_AUTH_STORE_PASSPHRASE?`);
+    }
+  }
+
+  write(record: TokenRecord): void {
+    const kdf = this.env.WEBEX_AUTH_STORE_KEY ? 'none' : 'scrypt';
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.deriveKey(kdf, salt), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(record), 'utf8'), cipher.final()]);
+
+    const payload: EncryptedPayload = {
+      version: 1,
+      kdf,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+    writeFileAtomic(this.filePath, JSON.stringify(payload, null, 2) + '\n');
+  }
+
+  clear(): void {
+    fs.rmSync(this.filePath, { force: true });
+  }
+
+  // WEBEX_AUTH_STORE_KEY is a raw 256-bit key (hex or base64); a passphrase goes through scrypt
+  private deriveKey(kdf: EncryptedPayload['kdf'], salt: Buffer): Buffer {
+    if (kdf === 'none') {
+      const raw = this.env.WEBEX_AUTH_STORE_KEY;
+      if (!raw) {
+        throw new WebexAuthError('usage', 'The encrypted store needs WEBEX_AUTH_STORE_KEY to be set');
+      }
+      const key = /^[0-9a-f]{64}$/i.test(raw) ? Buffer.from(raw, 'hex') : Buffer.from(raw, 'base64');
+      if (key.length !== 32) {
+        throw new WebexAuthError('usage', 'WEBEX_AUTH_STORE_KEY must be 32 bytes, hex or base64 encoded');
+      }
+      return key;
+    }
+
+    const passphrase = this.env.WEBEX_AUTH_STORE_PASSPHRASE;
+    if (!passphrase) {
+      throw new WebexAuthError('usage', 'The encrypted store needs WEBEX_AUTH_STORE_PASSPHRASE (or WEBEX_AUTH_STORE_KEY) to be set');
+    }
+    return crypto.scryptSync(passphrase, salt, 32);
+  }
+}
+
+// Delegates to user-provided commands such as `pass` or a gpg wrapper.
+// "{profile}" in a command is replaced with the profile name.
+export class CommandStore implements TokenStore {
+  readonly backend = 'command';
+
+  constructor(private commands: CommandStoreConfig, private profile: string) {}
+
+  location(): string {
+    return this.expand(this.commands.get);
+  }
+
+  read(): TokenRecord | null {
+    let output: string;
+    try {
+      output = this.run(this.commands.get);
+    } catch {
+      // Secret managers exit non-zero for unknown entries
+      return null;
+    }
+    if (!output.trim()) {
+      return null;
+    }
+    try {
+      return JSON.parse(output);
+    } catch {
+      throw new WebexAuthError('error', `"${this.expand(this.commands.get)}" did not return a webex-auth token record`);
+    }
+  }
+
+  write(record: TokenRecord): void {
+    try {
+      this.run(this.commands.set, JSON.stringify(record) + '\n');
+    } catch (error: any) {
+      throw new WebexAuthError('error', `Store command "${this.expand(this.commands.set)}" failed: ${error.stderr?.toString().trim() || error.message}`);
+    }
+  }
+
+  clear(): void {
+    try {
+      this.run(this.commands.delete);
+    } catch {
+      // Nothing stored for this profile
+    }
+  }
+
+  private expand(command: string): string {
+    return command.replace(/\{profile\}/g, this.profile);
+  }
+
+  private run(command: string, input?: string): string {
+    return execSync(this.expand(command), {
+      input,
+      encoding: 'utf8',
+      stdio: ['pipe', 'pipe', 'pipe']
+    });
+  }
+}
+
+export function createTokenStore(config: StoreConfig | undefined, profileDir: string, profile: string): TokenStore {
+  switch (config?.backend || 'plain') {
+    case 'encrypted':
+      return new EncryptedFileStore(path.join(profileDir, 'tokens.enc'));
+    case 'command':
+      if (!config?.commands) {
+        throw new WebexAuthError('usage', 'The command store needs get, set and delete commands in config.json');
+      }
+      return new CommandStore(config.commands, profile);
+    default:
+      return new PlaintextFileStore(path.join(profileDir, '.env'));
+  }
+}
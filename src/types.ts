@@ -0,0 +1,63 @@
+import { ErrorCode } from './errors';
+
+export type TokenType = 'pat' | 'oauth' | 'bot' | 'service-app';
+
+export type ExtractionStrategy = 'network' | 'dom' | 'clipboard';
+
+export interface TokenResponse {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number;
+  token_type: string;
+  // Webex reports it for OAuth and service-app tokens
+  refresh_token_expires_in?: number;
+}
+
+export interface OAuthClientCredentials {
+  clientId: string;
+  clientSecret: string;
+  tokenUrl: string;
+}
+
+export interface StoredToken {
+  // Missing for tokens stored before token types were recorded with them
+  type?: TokenType;
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number;
+  // 0 when unknown
+  refreshExpiresAt: number;
+  client?: OAuthClientCredentials;
+}
+
+export interface WebexIdentity {
+  id: string;
+  displayName: string;
+  emails: string[];
+  orgId: string;
+  type: 'person' | 'bot' | string;
+  licenses: string[];
+  roles: string[];
+  fetchedAt: string;
+}
+
+export interface LoginResult {
+  profile: string;
+  type?: TokenType;
+  expiresAt: number;
+  store: string;
+  identity?: WebexIdentity;
+  extractedWith?: ExtractionStrategy;
+}
+
+export type RevocationStatus = 'revoked' | 'not_supported' | 'failed' | 'skipped';
+
+export interface LogoutResult {
+  profile: string;
+  hadToken: boolean;
+  revocation: RevocationStatus;
+  revocationError?: string;
+  browserSession: boolean;
+  // Why the token could not be read or its local copies deleted; the other profiles are still logged out
+  error?: { code: ErrorCode; message: string };
+}
@@ -1,614 +1,922 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
-import axios from 'axios';
-import * as http from 'http';
-import * as url from 'url';
+import { Argument, Command, Option } from 'commander';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
+import { ProfileManager, TOKEN_TYPE_LABELS } from './profiles';
+import { STORE_BACKENDS, StoreBackend, StoreConfig } from './token-store';
+import { writeFileAtomic } from './files';
+import { COMPLETION_SHELLS, CompletionShell, completionInstallHint, completionInstallPath, generateCompletion } from './completion';
+import { Doctor } from './doctor';
+import { CredentialServer, defaultSocketPath, serveInfoPath } from './credential-server';
+import { TokenError, WebexAuthError, EXIT_CODES, errorCodeOf } from './errors';
+import { cliLogger, configureOutput, emitResult, fail, formatTable, isJsonOutput, print, toIsoOrNull } from './output';
+import { AUDIT_EVENT_TYPES, AuditLog } from './audit-log';
+import { BUILTIN_ENVIRONMENTS, findEnvironment } from './environments';
+import { describeNetwork, networkOptionsFromEnv } from './network';
+import { BrowserLoginOptions, DEFAULT_REFRESH_MARGIN_SECONDS, EMAIL_PATTERN, IMPORT_TOKEN_TYPES, TokenLifetime, TokenManager } from './token-manager';
+import { EXTRACTION_STRATEGIES, ExtractionStrategy } from './token-extraction';
+import { formatIdentityLines } from './identity';
+import { LoginResult, LogoutResult } from './types';
+import {
+  RefreshTokenRejectedError,
+  DEFAULT_CALLBACK_PORT,
+  DEFAULT_SCOPE
+} from './oauth';
+import { GENERIC_IDP, knownIdentityProviders, loadStepPlan } from './portal-flow';
+
+const TOKEN_FORMATS = ['raw', 'json', 'env', 'header'];
+
+async function readStdin(): Promise<string> {
+  if (process.stdin.isTTY) {
+    process.stderr.write('📋 Paste your access token, then press Enter and Ctrl-D:\n');
+  }
+  let input = '';
+  for await (const chunk of process.stdin) {
+    input += chunk;
+  }
+  return input.split('\n').map(line => line.trim()).find(line => line) || '';
+}
 
-interface TokenResponse {
-  access_token: string;
-  refresh_token: string;
-  expires_in: number;
-  token_type: string;
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
 }
 
-class TokenManager {
-  private envFilePath: string;
-  private configDir: string;
-
-  constructor() {
-    this.configDir = path.join(os.homedir(), '.webex-cli');
-    this.envFilePath = path.join(this.configDir, '.env');
-    
-    // Ensure config directory exists
-    if (!fs.existsSync(this.configDir)) {
-      fs.mkdirSync(this.configDir, { recursive: true });
-    }
+// Whole numbers only: parseInt would take "80abc" as 80 and turn "abc" into NaN
+function parseIntegerOption(value: string, flag: string, min: number, max = Number.MAX_SAFE_INTEGER): number {
+  const number = /^\d+$/.test(value.trim()) ? parseInt(value, 10) : NaN;
+  if (!(number >= min && number <= max)) {
+    const range = max === Number.MAX_SAFE_INTEGER ? `a whole number of at least ${min}` : `a whole number from ${min} to ${max}`;
+    throw new WebexAuthError('usage', `${flag} must be ${range}, not "${value}"`);
   }
+  return number;
+}
 
-  async saveToken(token: TokenResponse): Promise<void> {
-    const envContent = `WEBEX_ACCESS_TOKEN=${token.access_token}\nWEBEX_REFRESH_TOKEN=${token.refresh_token}\nWEBEX_TOKEN_EXPIRES_AT=${Date.now() + (token.expires_in * 1000)}\n`;
-    
-    // Read existing .env file if it exists
-    let existingContent = '';
-    if (fs.existsSync(this.envFilePath)) {
-      existingContent = fs.readFileSync(this.envFilePath, 'utf8');
-    }
-
-    // Remove existing Webex tokens
-    const lines = existingContent.split('\n').filter(line => 
-      !line.startsWith('WEBEX_ACCESS_TOKEN=') && 
-      !line.startsWith('WEBEX_REFRESH_TOKEN=') && 
-      !line.startsWith('WEBEX_TOKEN_EXPIRES_AT=')
-    );
-
-    // Add new token
-    const newContent = [...lines.filter(line => line.trim()), envContent].join('\n');
-    
-    fs.writeFileSync(this.envFilePath, newContent);
-    
-    // Also create a shell script that can be sourced
-    const shellScript = `#!/bin/bash\n# Webex CLI Token Environment Variables\nexport WEBEX_ACCESS_TOKEN="${token.access_token}"\nexport WEBEX_REFRESH_TOKEN="${token.refresh_token}"\nexport WEBEX_TOKEN_EXPIRES_AT="${Date.now() + (token.expires_in * 1000)}"\n`;
-    fs.writeFileSync(path.join(this.configDir, 'webex-env.sh'), shellScript);
-    
-    console.log(`✅ Token saved to ${this.envFilePath}`);
-    console.log(`💡 To use the token in current session:`);
-    console.log(`   source ~/.webex-cli/webex-env.sh`);
-    console.log(`💡 To use permanently, add this to your shell profile (~/.bashrc, ~/.zshrc):`);
-    console.log(`   source ~/.webex-cli/webex-env.sh`);
+function printLifetime(lifetime: TokenLifetime): void {
+  if (lifetime.type) {
+    print(`📋 Token Type: ${TOKEN_TYPE_LABELS[lifetime.type]}`);
   }
+  print(`⏰ Expires: ${lifetime.expiry}`);
+  print(`🔁 Renewal: ${lifetime.renewal}`);
+}
+
+function lifetimeResult(lifetime: TokenLifetime) {
+  return {
+    tokenType: lifetime.type,
+    expiresAt: toIsoOrNull(lifetime.expiresAt),
+    expired: lifetime.expired,
+    refreshable: lifetime.refreshable,
+    refreshTokenExpiresAt: toIsoOrNull(lifetime.refreshExpiresAt)
+  };
+}
+
+async function main() {
+  const program = new Command();
+  let currentCommand = 'webex-auth';
+
+  program
+    .name('webex-auth')
+    .description('CLI tool to authenticate with Webex APIs and store tokens')
+    .version('1.0.0')
+    .option('--profile <name>', 'profile to use (defaults to $WEBEX_PROFILE, then the default profile)')
+    .option('--env <environment>', 'Webex environment, e.g. commercial, fedramp or integration (defaults to $WEBEX_ENV, then the profile\'s)')
+    .option('--json', 'print a JSON result object on stdout; diagnostics go to stderr')
+    .option('-q, --quiet', 'print nothing but errors; rely on the exit code')
+    .exitOverride((error) => {
+      // Help and version exit 0; anything Commander rejects is a usage error
+      process.exit(error.exitCode === 0 ? 0 : EXIT_CODES.usage);
+    })
+    .hook('preAction', (_program, actionCommand) => {
+      configureOutput(program.opts());
+      new ProfileManager().migrateLegacyToken();
+      currentCommand = actionCommand.parent && actionCommand.parent !== program
+        ? `${actionCommand.parent.name()} ${actionCommand.name()}`
+        : actionCommand.name();
+    });
 
-  async validatePersonalToken(token: string): Promise<boolean> {
-    try {
-      console.log('   📡 Making API call to https://webexapis.com/v1/people/me');
-      const response = await axios.get('https://webexapis.com/v1/people/me', {
-        headers: {
-          'Authorization': `Bearer ${token}`
+  process.on('SIGINT', () => {
+    fail(currentCommand, new WebexAuthError('user_cancelled', 'Cancelled by user'));
+  });
+
+  program
+    .command('login')
+    .description('Get a Webex access token from the developer portal, OAuth or an import')
+    .option('--oauth', 'use the OAuth 2.0 authorization-code flow of a Webex integration')
+    .option('-i, --client-id <id>', 'OAuth client ID (defaults to $WEBEX_CLIENT_ID)')
+    .option('-s, --client-secret <secret>', 'OAuth client secret (defaults to $WEBEX_CLIENT_SECRET)')
+    .option('--scope <scope>', 'OAuth scope', DEFAULT_SCOPE)
+    .option('-p, --port <port>', 'port for the local OAuth callback server', String(DEFAULT_CALLBACK_PORT))
+    .option('--redirect-uri <uri>', 'OAuth redirect URI (defaults to http://localhost:<port>/callback)')
+    .option('--authorize-url <url>', 'OAuth authorize endpoint (defaults to the environment\'s)')
+    .option('--token-url <url>', 'OAuth token endpoint, also used to refresh service-app tokens (defaults to the environment\'s)')
+    .option('--timeout <seconds>', 'how long to wait for the OAuth callback', '300')
+    .option('--service-app <app-id>', 'exchange a token for this service app (client ID and secret as for --oauth)')
+    .option('--org-id <id>', 'with --service-app, the org whose admin authorized the app')
+    .option('--auth-profile <name>', 'with --service-app, the profile holding the app owner\'s personal or bot token')
+    .option('--exchange-url <url>', 'service-app token endpoint, {applicationId} is replaced (defaults to the environment\'s)')
+    .option('--no-browser', 'print the authorization URL instead of opening a browser')
+    .option('-t, --token <value>', 'import an existing access token instead of using a browser')
+    .option('--stdin', 'read the access token to import from stdin')
+    .option('--from-env <var>', 'import the access token from an environment variable')
+    .option('--no-validate', 'store an imported token without checking it against the Webex API')
+    .addOption(new Option('--type <type>', 'type of an imported token (detected from its account when validated)').choices(IMPORT_TOKEN_TYPES))
+    .option('--steps <file>', 'portal step plan to use instead of ~/.webex-cli/portal-steps.json or the built-in one')
+    .option('--dump-steps', 'print the resolved portal step plan and exit without launching a browser')
+    .option('--email <address>', 'email to fill into the sign-in form (defaults to the profile\'s or the configured one)')
+    .option('--idp <type>', 'identity-provider type of the sign-in steps, instead of detecting it from the email domain')
+    .option('--no-autofill', 'do not fill in the sign-in form; sign in yourself in the browser')
+    .option('--keep-session', 'keep the browser session for this profile so later logins can skip SSO and MFA')
+    .option('--fresh-session', 'discard the kept browser session before launching the browser')
+    .option('--headless', 'run the browser without a window (needs a kept, signed-in session)')
+    .option('--browser-path <path>', 'Chrome or Chromium executable to use instead of the bundled one')
+    .option('--debug-dir <dir>', 'save a screenshot, the HTML and the URL of every step and failure here')
+    .option('--trace', 'with --debug-dir, also record a Puppeteer performance trace')
+    .option('--extract <strategies>', `token extraction strategies to try (${EXTRACTION_STRATEGIES.join(', ')})`)
+    .action(async (options) => {
+      try {
+        const isImport = options.token !== undefined || options.stdin || options.fromEnv !== undefined;
+        const importSources = [options.token !== undefined, options.stdin, options.fromEnv !== undefined, options.oauth, options.serviceApp].filter(Boolean);
+        if (importSources.length > 1) {
+          throw new WebexAuthError('usage', 'Use only one of --oauth, --service-app, --token, --stdin and --from-env');
         }
-      });
-      console.log(`   ✅ API Response: ${response.status} ${response.statusText}`);
-      if (response.data && response.data.displayName) {
-        console.log(`   👤 Authenticated as: ${response.data.displayName}`);
-      }
-      return response.status === 200;
-    } catch (error: any) {
-      console.log(`   ❌ API Error: ${error.response?.status || 'Unknown'} ${error.response?.statusText || error.message}`);
-      if (error.response?.data) {
-        console.log(`   📋 Error details: ${JSON.stringify(error.response.data, null, 2)}`);
+        if (options.type && !isImport) {
+          throw new WebexAuthError('usage', '--type only applies to imported tokens (--token, --stdin or --from-env)');
+        }
+
+        const tokenManager = new TokenManager({ profile: program.opts().profile, environment: program.opts().env, logger: cliLogger });
+        const strategies = options.extract?.split(',').map((name: string) => name.trim());
+        const unknown = strategies?.filter((name: string) => !EXTRACTION_STRATEGIES.includes(name as ExtractionStrategy));
+        if (unknown?.length) {
+          throw new WebexAuthError('usage', `Unknown extraction strategy "${unknown[0]}" - use ${EXTRACTION_STRATEGIES.join(', ')}`);
+        }
+
+        if (options.trace && !options.debugDir) {
+          throw new WebexAuthError('usage', '--trace needs --debug-dir to know where to write the trace');
+        }
+
+        const browserOptions: BrowserLoginOptions = {
+          stepsFile: options.steps,
+          email: options.email,
+          idp: options.idp,
+          autofill: options.autofill,
+          keepSession: options.keepSession,
+          freshSession: options.freshSession,
+          strategies,
+          headless: options.headless,
+          browserPath: options.browserPath,
+          debugDir: options.debugDir,
+          trace: options.trace
+        };
+        if (options.dumpSteps) {
+          const { plan, source } = tokenManager.loadStepPlan(options.steps);
+          const signIn = tokenManager.resolveSignIn(plan, browserOptions);
+          emitResult('login', { source, signIn, plan }, () => {
+            process.stdout.write(JSON.stringify({ source, signIn, ...plan }, null, 2) + '\n');
+          });
+          return;
+        }
+
+        let method: 'browser' | 'oauth' | 'service-app' | 'import' = 'browser';
+        let result: LoginResult;
+        if (isImport) {
+          let token: string | undefined = options.token;
+          if (options.stdin) {
+            token = await readStdin();
+          } else if (options.fromEnv !== undefined) {
+            token = process.env[options.fromEnv];
+            if (!token) {
+              throw new WebexAuthError('usage', `Environment variable ${options.fromEnv} is not set`);
+            }
+          }
+          method = 'import';
+          result = await tokenManager.login({ method, token: token || '', validate: options.validate, type: options.type });
+        } else if (options.serviceApp) {
+          const clientId = options.clientId || process.env.WEBEX_CLIENT_ID;
+          const clientSecret = options.clientSecret || process.env.WEBEX_CLIENT_SECRET;
+          if (!clientId || !clientSecret || !options.orgId || !options.authProfile) {
+            throw new WebexAuthError('usage', 'Service-app login requires --client-id, --client-secret, --org-id and --auth-profile');
+          }
+          const owner = new TokenManager({ profile: options.authProfile, environment: program.opts().env, logger: cliLogger });
+          if (owner.profile === tokenManager.profile) {
+            throw new WebexAuthError('usage', '--auth-profile must be another profile than the one the service-app token is stored in');
+          }
+          method = 'service-app';
+          result = await tokenManager.login({
+            method,
+            applicationId: options.serviceApp,
+            clientId,
+            clientSecret,
+            targetOrgId: options.orgId,
+            authToken: await owner.getToken(),
+            exchangeUrl: options.exchangeUrl || tokenManager.environment.serviceAppTokenUrl,
+            tokenUrl: options.tokenUrl || tokenManager.environment.tokenUrl
+          });
+        } else if (options.oauth) {
+          const clientId = options.clientId || process.env.WEBEX_CLIENT_ID;
+          const clientSecret = options.clientSecret || process.env.WEBEX_CLIENT_SECRET;
+          if (!clientId || !clientSecret) {
+            throw new WebexAuthError('usage', 'OAuth login requires --client-id and --client-secret');
+          }
+          method = 'oauth';
+          result = await tokenManager.login({
+            method,
+            clientId,
+            clientSecret,
+            scope: options.scope,
+            port: parseIntegerOption(options.port, '--port', 1, 65535),
+            redirectUri: options.redirectUri,
+            authorizeUrl: options.authorizeUrl || tokenManager.environment.authorizeUrl,
+            tokenUrl: options.tokenUrl || tokenManager.environment.tokenUrl,
+            openBrowser: options.browser,
+            timeoutMs: parseIntegerOption(options.timeout, '--timeout', 1) * 1000
+          });
+        } else {
+          result = await tokenManager.login({ method, ...browserOptions });
+        }
+
+        emitResult('login', {
+          method,
+          profile: result.profile,
+          tokenType: result.type || null,
+          expiresAt: toIsoOrNull(result.expiresAt),
+          store: result.store,
+          environment: tokenManager.environment.name,
+          identity: result.identity || null,
+          extractedWith: result.extractedWith || null
+        });
+      } catch (error: any) {
+        fail('login', error, 'Authentication failed');
       }
-      return false;
-    }
-  }
+    });
 
-  displayPersonalTokenInfo(token: string): void {
-    console.log('\n🎉 Personal Access Token extracted and validated!');
-    console.log(`📋 Token Type: Personal Access Token`);
-    console.log(`⏰ Expires: Never (Personal Access Tokens don't expire)`);
-    console.log(`🔑 Access Token: ${token.substring(0, 20)}...`);
-  }
+  program
+    .command('refresh')
+    .description('Refresh the stored OAuth access token using its refresh token')
+    .option('-f, --force', 'refresh even if the access token is still valid')
+    .option('-m, --margin <seconds>', 'refresh when the token expires within this many seconds', String(DEFAULT_REFRESH_MARGIN_SECONDS))
+    .option('-i, --client-id <id>', 'OAuth client ID (defaults to the one stored at login, then $WEBEX_CLIENT_ID)')
+    .option('-s, --client-secret <secret>', 'OAuth client secret (defaults to the one stored at login, then $WEBEX_CLIENT_SECRET)')
+    .option('--token-url <url>', 'OAuth token endpoint (defaults to the one used at login)')
+    .action(async (options) => {
+      try {
+        const tokenManager = new TokenManager({ profile: program.opts().profile, environment: program.opts().env, logger: cliLogger });
+        const stored = tokenManager.readStoredToken();
+        if (!stored) {
+          throw new TokenError('no_token', `No token found for profile "${tokenManager.profile}". Run "webex-auth login" first.`);
+        }
 
-  async getTokenAutomatically(): Promise<void> {
-    console.log('🤖 Starting fully automated token extraction...');
-    console.log('📋 This will:');
-    console.log('   1. Launch a browser');
-    console.log('   2. Navigate to Webex developer portal');
-    console.log('   3. Wait for you to sign in');
-    console.log('   4. Automatically extract your Personal Access Token');
-    console.log('   5. Save and configure the token');
-    console.log('');
-    console.log('⚠️  You will need to sign in to Webex when the browser opens');
-    console.log('');
-
-    try {
-      // Dynamic import for Puppeteer
-      const puppeteer = await import('puppeteer');
-      
-      console.log('🚀 Launching browser...');
-      const browser = await puppeteer.default.launch({ 
-        headless: false, // Keep visible so user can sign in
-        defaultViewport: null,
-        args: [
-          '--disable-web-security',
-          '--disable-features=VizDisplayCompositor',
-          '--allow-running-insecure-content',
-          '--disable-blink-features=AutomationControlled'
-        ]
-      });
+        if (!options.force && !tokenManager.needsRefresh(stored, parseIntegerOption(options.margin, '--margin', 0))) {
+          emitResult('refresh', { profile: tokenManager.profile, refreshed: false, expiresAt: toIsoOrNull(stored.expiresAt) }, () => {
+            const expiry = stored.expiresAt > 0 ? `is valid until ${new Date(stored.expiresAt).toLocaleString()}`
+              : stored.type === 'bot' ? 'never expires' : 'has no recorded expiry';
+            print(`✅ Access token ${expiry} - no refresh needed`);
+          });
+          return;
+        }
 
-      const page = await browser.newPage();
-      
-      // Minimize window immediately after launch
-      console.log('🔽 Minimizing browser window to reduce distraction...');
-      await page.evaluate(`() => {
-        window.resizeTo(200, 100);
-        window.moveTo(window.screen.availWidth - 200, window.screen.availHeight - 100);
-      }`);
-      
-      // Grant clipboard permissions
-      const context = browser.defaultBrowserContext();
-      await context.overridePermissions('https://developer.webex.com', ['clipboard-read', 'clipboard-write']);
-      
-      console.log('🌐 Navigating to Webex developer portal...');
-      await page.goto('https://developer.webex.com/docs/getting-started', {
-        waitUntil: 'networkidle2'
-      });
+        cliLogger.info('🔄 Refreshing access token...');
+        const token = await tokenManager.refreshToken({
+          clientId: options.clientId,
+          clientSecret: options.clientSecret,
+          tokenUrl: options.tokenUrl
+        });
+        const expiresAt = Date.now() + token.expires_in * 1000;
+        emitResult('refresh', { profile: tokenManager.profile, refreshed: true, expiresAt: toIsoOrNull(expiresAt) }, () => {
+          print(`✅ Access token refreshed, valid until ${new Date(expiresAt).toLocaleString()}`);
+          print(`💡 Run "source ${tokenManager.envScriptHint()}" to load the new token`);
+        });
+      } catch (error: any) {
+        fail('refresh', error, error instanceof RefreshTokenRejectedError ? undefined : 'Refresh failed');
+      }
+    });
+
+  program
+    .command('token')
+    .description('Print a valid access token for use in scripts and pipelines')
+    .option('-f, --format <format>', `output format (${TOKEN_FORMATS.join(', ')})`, 'raw')
+    .option('-m, --margin <seconds>', 'refresh when the token expires within this many seconds', String(DEFAULT_REFRESH_MARGIN_SECONDS))
+    .option('--no-refresh', 'print an expiring token without refreshing it; fail only once it has expired')
+    .action(async (options) => {
+      // stdout carries only the token; failures are a single JSON line on stderr
+      const tokenFail = (error: any) => {
+        const code = errorCodeOf(error);
+        process.stderr.write(JSON.stringify({ error: code, message: error.message }) + '\n');
+        process.exit(EXIT_CODES[code]);
+      };
+
+      const format = isJsonOutput() ? 'json' : options.format;
+      if (!TOKEN_FORMATS.includes(format)) {
+        tokenFail(new WebexAuthError('usage', `Unsupported format "${format}" - use one of ${TOKEN_FORMATS.join(', ')}`));
+      }
 
-      // Get the current Mac username for auto-filling email
-      const macUsername = process.env.USER || process.env.USERNAME || 'user';
-      const autoEmail = `${macUsername}@cisco.com`;
-      console.log(`🤖 Starting automated login for: ${autoEmail}`);
+      try {
+        // No logger: nothing but the token may reach stdout, and stderr is kept for the failure line
+        const tokenManager = new TokenManager({ profile: program.opts().profile, environment: program.opts().env });
+        const accessToken = await tokenManager.getValidAccessToken(parseIntegerOption(options.margin, '--margin', 0), options.refresh);
+        const expiresAt = tokenManager.readStoredToken()?.expiresAt || 0;
+
+        let output = accessToken;
+        if (format === 'json') {
+          output = JSON.stringify({
+            profile: tokenManager.profile,
+            access_token: accessToken,
+            token_type: 'Bearer',
+            expires_at: toIsoOrNull(expiresAt)
+          });
+        } else if (format === 'env') {
+          output = `export WEBEX_ACCESS_TOKEN=${shellQuote(accessToken)}\nexport WEBEX_TOKEN_EXPIRES_AT=${shellQuote(String(expiresAt))}`;
+        } else if (format === 'header') {
+          output = `Authorization: Bearer ${accessToken}`;
+        }
+        process.stdout.write(output + '\n');
+      } catch (error: any) {
+        tokenFail(error);
+      }
+    });
 
+  program
+    .command('serve')
+    .description('Serve fresh tokens to local tools over a Unix socket or 127.0.0.1')
+    .option('--socket <path>', 'Unix socket to listen on (default: ~/.webex-cli/serve.sock)')
+    .option('--port <port>', 'listen on 127.0.0.1 instead of a socket; clients must send the secret from serve.json')
+    .option('-m, --margin <seconds>', 'refresh tokens when they expire within this many seconds', String(DEFAULT_REFRESH_MARGIN_SECONDS))
+    .action(async (options) => {
       try {
-        // Step 1: Click the Login button
-        console.log('🔍 Step 1: Clicking Login button...');
-        await page.waitForSelector('#header-login-link', { timeout: 10000 });
-        await page.click('#header-login-link');
-        console.log('✅ Clicked Login button');
-
-        // Step 2: Enter email into first input box
-        console.log('🔍 Step 2: Entering email...');
-        await page.waitForSelector('#IDToken1', { timeout: 10000 });
-        await page.type('#IDToken1', autoEmail);
-        console.log(`✅ Entered email: ${autoEmail}`);
-
-        // Step 3: Click Sign In button
-        console.log('🔍 Step 3: Clicking Sign In button...');
-        await page.waitForSelector('#IDButton2', { timeout: 10000 });
-        await page.click('#IDButton2');
-        console.log('✅ Clicked Sign In button');
-
-        // Step 4: Enter email into second input box
-        console.log('🔍 Step 4: Entering email again...');
-        const emailSelector2 = '#login-parent > div > div.display-flex.flex-direction-column.flex-value-one.size-padding-left-large.size-padding-right-large > label > input';
-        await page.waitForSelector(emailSelector2, { timeout: 10000 });
-        await page.type(emailSelector2, autoEmail);
-        console.log(`✅ Entered email again: ${autoEmail}`);
-
-        // Step 5: Click Next button
-        console.log('🔍 Step 5: Clicking Next button...');
-        const nextButtonSelector = '#login-parent > div > div.display-flex.flex-direction-column.flex-value-one.size-padding-left-large.size-padding-right-large > button';
-        await page.waitForSelector(nextButtonSelector, { timeout: 10000 });
-        await page.click(nextButtonSelector);
-        console.log('✅ Clicked Next button');
-
-        // Step 6: Focus password field and maximize window for user interaction
-        console.log('🔍 Step 6: Focusing password field...');
-        const passwordSelector = '#login-parent > div > div.display-flex.flex-direction-column.flex-value-one.size-padding-left-large.size-padding-right-large > form > label > input';
-        await page.waitForSelector(passwordSelector, { timeout: 10000 });
-        
-        // Maximize window for password entry
-        console.log('🔼 Maximizing window for password entry...');
-        await page.evaluate(`() => {
-          if (window.outerHeight < window.screen.availHeight || window.outerWidth < window.screen.availWidth) {
-            window.resizeTo(window.screen.availWidth, window.screen.availHeight);
-            window.moveTo(0, 0);
+        const { configDir } = new ProfileManager();
+        // Windows has no Unix sockets to rely on for permissions
+        const useTcp = options.port !== undefined || (process.platform === 'win32' && !options.socket);
+        const server = new CredentialServer({
+          sourceFor: (profile) => new TokenManager({ profile: profile || program.opts().profile, environment: program.opts().env, logger: cliLogger }),
+          configDir,
+          socketPath: useTcp ? undefined : path.resolve(options.socket || defaultSocketPath(configDir)),
+          port: useTcp ? parseIntegerOption(options.port || '0', '--port', 0, 65535) : undefined,
+          refreshMarginSeconds: parseIntegerOption(options.margin, '--margin', 0),
+          logger: cliLogger
+        });
+
+        const info = await server.start();
+        process.on('exit', () => server.stop());
+        process.on('SIGTERM', () => process.exit(0));
+
+        emitResult('serve', { socketPath: info.socketPath || null, url: info.url || null, infoFile: serveInfoPath(configDir), pid: info.pid }, () => {
+          print(`🔌 Serving tokens on ${info.socketPath || info.url}`);
+          print('   GET /token?profile=<name>, GET /whoami?profile=<name>, POST /refresh?profile=<name>');
+          if (info.url) {
+            print(`🔐 Clients must send the secret from ${serveInfoPath(configDir)} in the X-Webex-Auth-Secret header`);
           }
-        }`);
-        
-        await page.focus(passwordSelector);
-        console.log('✅ Password field is now focused - you can type your password!');
-        console.log('🔼 Window has been maximized for easier interaction');
-
-        console.log('🔐 Please complete your password and MFA authentication...');
-        console.log('⏳ The tool will automatically continue once you finish MFA...');
-
-      } catch (stepError: any) {
-        console.log(`⚠️  Automated flow failed at some step: ${stepError.message}`);
-        console.log('👤 Please complete the login manually...');
-        console.log('⏳ The tool will wait for you to finish and then extract the token...');
+          print('   Press Ctrl+C to stop');
+        });
+      } catch (error: any) {
+        fail('serve', error, 'Could not start the token server');
       }
+    });
 
-      // Wait for MFA completion and "Yes, this is my device" button
-      console.log('🔍 Step 7: Waiting for MFA completion...');
+  program
+    .command('whoami')
+    .alias('validate')
+    .description('Validate the stored token and show the account it belongs to')
+    .option('--cached', 'show the identity cached with the profile without calling the API')
+    .action(async (options) => {
       try {
-        // Wait for and click "Yes, this is my device" button
-        await page.waitForSelector('#trust-browser-button', { timeout: 300000 }); // 5 minutes timeout
-        await page.click('#trust-browser-button');
-        console.log('✅ Clicked "Yes, this is my device" button');
-        
-        // Minimize window after MFA completion
-        console.log('🔽 Minimizing window after MFA completion...');
-        await page.evaluate(`() => {
-          if (window.minimize) {
-            window.minimize();
-          } else {
-            // Fallback: move window off-screen or resize to small
-            window.resizeTo(100, 100);
-            window.moveTo(window.screen.availWidth - 100, window.screen.availHeight - 100);
+        const tokenManager = new TokenManager({ profile: program.opts().profile, environment: program.opts().env, logger: cliLogger });
+        const identity = options.cached ? tokenManager.getCachedIdentity() : await tokenManager.whoami();
+        if (!identity) {
+          throw new WebexAuthError('error', `No identity cached for profile "${tokenManager.profile}". Run "webex-auth whoami" without --cached.`);
+        }
+        // Read after whoami, which may have refreshed the token
+        const stored = tokenManager.readStoredToken();
+        const lifetime = stored ? tokenManager.describeLifetime(stored) : null;
+
+        emitResult('whoami', {
+          profile: tokenManager.profile,
+          cached: !!options.cached,
+          identity,
+          ...(lifetime ? lifetimeResult(lifetime) : {})
+        }, () => {
+          print(`📋 Webex identity for profile "${tokenManager.profile}"${options.cached ? ' (cached)' : ''}:`);
+          for (const line of formatIdentityLines(identity)) {
+            print(line);
+          }
+          if (lifetime) {
+            printLifetime(lifetime);
           }
-        }`);
-        
-        // Wait for page to redirect back to developer portal
-        await new Promise(resolve => setTimeout(resolve, 3000));
-        
-      } catch (trustButtonError) {
-        console.log('⚠️  Trust device button not found or timeout - continuing anyway...');
+        });
+      } catch (error: any) {
+        fail('whoami', error);
       }
+    });
 
-      // Now extract the token using the simplified approach
-      console.log('🔍 Step 8: Extracting token...');
-      let token: string | null = null;
-      
+  program
+    .command('info')
+    .description('Display information about stored tokens')
+    .action(() => {
       try {
-        // Step 8: Click on avatar button
-        console.log('🔍 Looking for avatar button...');
-        console.log('🔍 Current page URL:', await page.url());
-        
-        // Try the avatar selectors based on what we found in debug
-        const avatarSelectors = [
-          '#root > div > header > div > div > div.md-top-bar__right > div.md-top-bar__user > div', // Original selector
-          '.md-top-bar__user', // Found in debug
-          '.md-avatar', // Found in debug
-          '.user-image', // Found in debug
-          'div.md-top-bar__user',
-          'div.md-avatar',
-          'img.user-image'
-        ];
-
-        let avatarClicked = false;
-        for (const selector of avatarSelectors) {
-          try {
-            await page.waitForSelector(selector, { timeout: 5000 });
-            await page.click(selector);
-            console.log('✅ Clicked avatar button');
-            avatarClicked = true;
-            break;
-          } catch (selectorError) {
-            // Continue to next selector
+        const tokenManager = new TokenManager({ profile: program.opts().profile, environment: program.opts().env, logger: cliLogger });
+        const profile = tokenManager.profile;
+        const stored = tokenManager.readStoredToken();
+        if (!stored) {
+          throw new TokenError('no_token', `No token found for profile "${profile}". Run "webex-auth login" first.`);
+        }
+
+        const profiles = new ProfileManager();
+        const metadata = profiles.readMetadata(profile);
+        const isDefault = profile === profiles.getDefault();
+        const lifetime = tokenManager.describeLifetime(stored);
+        const result = {
+          profile,
+          isDefault,
+          configDir: profiles.profileDir(profile),
+          store: tokenManager.storeDescription(),
+          environment: tokenManager.environment.name,
+          identity: metadata.identity || null,
+          serviceApp: metadata.serviceApp || null,
+          hasRefreshToken: !!stored.refreshToken,
+          ...lifetimeResult(lifetime)
+        };
+
+        emitResult('info', result, () => {
+          print('📋 Webex Token Information:');
+          print(`🗂️  Profile: ${profile}${isDefault ? ' (default)' : ''}`);
+          print(`📁 Config Directory: ${result.configDir}`);
+          print(`🔐 Storage: ${result.store}`);
+          print(`🌍 Environment: ${tokenManager.environment.name} (${tokenManager.environment.apiBaseUrl})`);
+          if (metadata.identity) {
+            const { displayName, emails, orgId } = metadata.identity;
+            print(`👤 Account: ${displayName}${emails[0] ? ` <${emails[0]}>` : ''} (org ${orgId})`);
+          }
+          if (metadata.serviceApp) {
+            print(`🧩 Service App: ${metadata.serviceApp.applicationId} (org ${metadata.serviceApp.targetOrgId})`);
           }
+          print(`🔑 Access Token: ${stored.accessToken.substring(0, 20)}...`);
+          if (stored.refreshToken) {
+            print(`🔄 Refresh Token: ${stored.refreshToken.substring(0, 20)}...`);
+          }
+          printLifetime(lifetime);
+          const scriptPath = isDefault ? '~/.webex-cli/webex-env.sh' : profiles.envScriptPath(profile);
+          print(`💡 To load token: source ${scriptPath}`);
+        });
+
+        // A stored but expired token is still reported, with its own exit code
+        if (lifetime.expired) {
+          process.exit(EXIT_CODES.token_expired);
         }
+      } catch (error: any) {
+        fail('info', error);
+      }
+    });
+
+  const profilesCommand = program
+    .command('profiles')
+    .description('Manage named token profiles');
 
-        if (!avatarClicked) {
-          throw new Error('Could not find any clickable avatar element');
+  profilesCommand
+    .command('list')
+    .description('List stored profiles')
+    .action(() => {
+      const profiles = new ProfileManager().list();
+      const result = profiles.map(profile => ({
+        name: profile.name,
+        isDefault: profile.isDefault,
+        tokenType: profile.metadata.type || null,
+        account: profile.metadata.identity?.displayName || null,
+        hasToken: profile.hasToken,
+        expiresAt: toIsoOrNull(profile.expiresAt)
+      }));
+
+      emitResult('profiles list', { profiles: result }, () => {
+        if (profiles.length === 0) {
+          print('❌ No profiles found. Run "webex-auth login --profile <name>" to create one.');
+          return;
         }
-        
-        // Wait a moment for menu to appear after avatar click
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        
-        // Step 9: Click copy token button
-        console.log('🔍 Looking for copy token button...');
-        const copyTokenSelector = '#copy-token-modal-button';
-        await page.waitForSelector(copyTokenSelector, { timeout: 10000 });
-        await page.click(copyTokenSelector);
-        console.log('✅ Clicked copy token button');
-        
-        // Step 10: Click OK button to confirm copy
-        console.log('🔍 Looking for OK button...');
-        const okButtonSelector = '#confirm-copy-button';
-        await page.waitForSelector(okButtonSelector, { timeout: 10000 });
-        await page.click(okButtonSelector);
-        console.log('✅ Clicked OK button');
-        
-        // Wait 1 second for copy to complete
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-        // Read from clipboard
-        try {
-          console.log('📋 Reading token from clipboard...');
-          const clipboardText = await page.evaluate('navigator.clipboard.readText()') as string;
-          console.log(`📋 Token extracted: ${clipboardText?.substring(0, 50) || 'empty'}...`);
-          
-          if (clipboardText && this.isValidTokenFormat(clipboardText)) {
-            token = clipboardText.trim();
-            console.log('✅ Successfully extracted token from clipboard!');
-          } else {
-            console.log(`❌ Invalid token format: "${clipboardText?.substring(0, 100) || 'empty'}"`);
+
+        print('📋 Webex profiles:');
+        for (const profile of profiles) {
+          const marker = profile.isDefault ? '*' : ' ';
+          const type = profile.metadata.type ? TOKEN_TYPE_LABELS[profile.metadata.type] : 'Unknown type';
+          const account = profile.metadata.identity?.displayName || 'unknown account';
+          let expiry = 'no token';
+          if (profile.hasToken) {
+            expiry = profile.expiresAt === 0 ? (profile.metadata.type === 'bot' ? 'never expires' : 'no recorded expiry')
+              : profile.expiresAt < Date.now() ? 'EXPIRED'
+              : `expires ${new Date(profile.expiresAt).toLocaleString()}`;
           }
-        } catch (clipError) {
-          console.log(`❌ Could not read from clipboard: ${clipError}`);
+          print(` ${marker} ${profile.name} - ${type}, ${account}, ${expiry}`);
         }
-        
-      } catch (extractError: any) {
-        console.log(`❌ Token extraction failed: ${extractError.message}`);
+      });
+    });
+
+  profilesCommand
+    .command('use <name>')
+    .description('Make a profile the default')
+    .action((name: string) => {
+      try {
+        new ProfileManager().setDefault(name);
+        emitResult('profiles use', { defaultProfile: name }, () => {
+          print(`✅ Default profile is now "${name}"`);
+          print(`💡 Run "source ~/.webex-cli/webex-env.sh" to load its token`);
+        });
+      } catch (error: any) {
+        fail('profiles use', error);
       }
+    });
 
-      await browser.close();
-
-      if (!token) {
-        console.log('⏰ Timeout: Could not automatically find the Personal Access Token');
-        console.log('💡 This might happen if:');
-        console.log('   • You haven\'t signed in yet');
-        console.log('   • The token section hasn\'t loaded');
-        console.log('   • The page structure has changed');
-        console.log('');
-        console.log('🔄 Please try running the command again and make sure to:');
-        console.log('   1. Sign in to your Webex account');
-        console.log('   2. Navigate to or scroll down to find the "Your Personal Access Token" section');
-        await browser.close();
-        return;
+  profilesCommand
+    .command('delete <name>')
+    .description('Delete a profile and its stored tokens')
+    .action((name: string) => {
+      try {
+        const profiles = new ProfileManager();
+        profiles.delete(name);
+        emitResult('profiles delete', { deleted: name, defaultProfile: profiles.getDefault() }, () => {
+          print(`✅ Deleted profile "${name}"`);
+          print(`💡 Default profile: ${profiles.getDefault()}`);
+        });
+      } catch (error: any) {
+        fail('profiles delete', error);
       }
+    });
 
-      console.log('🎉 Token found automatically!');
-      
-      // Clean the token (remove any Bearer prefix or extra whitespace)
-      token = token.replace(/^Bearer\s+/i, '').trim();
-
-      // Debug: Show token details
-      console.log('🔍 Token Debug Information:');
-      console.log(`   Length: ${token.length} characters`);
-      console.log(`   First 50 chars: ${token.substring(0, 50)}...`);
-      console.log(`   Last 50 chars: ...${token.substring(token.length - 50)}`);
-      console.log(`   Contains numbers: ${/\d/.test(token)}`);
-      console.log(`   Contains uppercase: ${/[A-Z]/.test(token)}`);
-      console.log(`   Contains lowercase: ${/[a-z]/.test(token)}`);
-      console.log(`   Base64 format: ${/^[A-Za-z0-9+/]+=*$/.test(token)}`);
-
-      // Validate the token
-      console.log('🔍 Validating token with Webex API...');
-      const isValid = await this.validatePersonalToken(token);
-      if (!isValid) {
-        console.log('❌ The extracted token appears to be invalid');
-        console.log('💡 This could mean:');
-        console.log('   • The wrong text was detected as a token');
-        console.log('   • Network issues prevented validation');
-        console.log('');
-        console.log('🔄 Please try running the command again');
-        return;
+  const envCommand = program
+    .command('env')
+    .description('List the Webex environments or switch a profile to another one');
+
+  envCommand
+    .command('list')
+    .description('List the built-in and configured environments and the network settings')
+    .action(() => {
+      try {
+        const profiles = new ProfileManager();
+        const profile = profiles.resolveName(program.opts().profile);
+        const current = profiles.resolveEnvironment(profile, program.opts().env).name;
+        const custom = profiles.getCustomEnvironments();
+        const environments = [...new Set([...Object.keys(BUILTIN_ENVIRONMENTS), ...Object.keys(custom)])]
+          .map(name => ({ ...findEnvironment(name, custom), configured: !!custom[name], current: name === current }));
+        const network = describeNetwork(networkOptionsFromEnv());
+
+        emitResult('env list', { profile, environments, network }, () => {
+          print(`🌍 Webex environments (profile "${profile}" uses ${current}):`);
+          for (const environment of environments) {
+            const marker = environment.current ? '*' : ' ';
+            print(` ${marker} ${environment.name}${environment.configured ? ' (config.json)' : ''} - ${environment.apiBaseUrl}, portal ${environment.portalUrl}`);
+          }
+          print(`🌐 Network: ${network}`);
+        });
+      } catch (error: any) {
+        fail('env list', error);
       }
+    });
 
-      // Save the token
-      const patTokenData = {
-        access_token: token,
-        refresh_token: '',
-        expires_in: 0, // PATs don't expire
-        token_type: 'Bearer'
-      };
+  envCommand
+    .command('use <environment>')
+    .description('Use an environment for the selected profile from now on')
+    .action((environment: string) => {
+      try {
+        const profiles = new ProfileManager();
+        const profile = profiles.resolveName(program.opts().profile);
+        const previous = profiles.resolveEnvironment(profile).name;
+        profiles.setEnvironment(profile, environment);
+        emitResult('env use', { profile, environment, previous }, () => {
+          print(`✅ Profile "${profile}" now uses the ${environment} environment`);
+          if (previous !== environment && profiles.openStore(profile).read()) {
+            print(`💡 Its token was issued by ${previous}; run "webex-auth login --profile ${profile}" to get one from ${environment}`);
+          }
+        });
+      } catch (error: any) {
+        fail('env use', error);
+      }
+    });
 
-      this.displayPersonalTokenInfo(token);
-      await this.saveToken(patTokenData);
-      
-      console.log('\n🎉 Fully automated setup complete! Your Personal Access Token is ready to use.');
-      process.exit(0);
-
-    } catch (error: any) {
-      console.log(`❌ Browser automation failed: ${error.message}`);
-      console.log('💡 Common issues and solutions:');
-      console.log('   • Chrome/Chromium not installed: Install Google Chrome');
-      console.log('   • Permission denied: Check browser permissions');
-      console.log('   • Network issues: Check internet connection');
-      console.log('');
-      console.log('🔄 Please fix the issue and try again');
-      process.exit(1);
-    }
-  }
+  const storeCommand = program
+    .command('store')
+    .description('Inspect or change where tokens are stored');
 
-  private isValidTokenFormat(text: string): boolean {
-    // Personal Access Tokens are typically long base64-like strings
-    const cleaned = text.replace(/^Bearer\s+/i, '').trim();
-    
-    // Webex Personal Access Tokens have a specific format
-    // Example: YzAwMTQ5NWQtOWM1ZC00ZDg1LTk4MWYtYTEwZTg3MDE2YTE5MjBlNjQ3NTAtYjgz_PF84_1eb65fdf-9643-417f-9974-ad72cae0e10f
-    
-    // Should be quite long (typically 100+ characters)
-    if (cleaned.length < 80) return false;
-    
-    // Should contain base64 characters including underscores and hyphens
-    const webexTokenPattern = /^[A-Za-z0-9+/_-]+$/;
-    if (!webexTokenPattern.test(cleaned)) return false;
-    
-    // Should not be JSON or contain JSON-like patterns
-    const excludeJSONPatterns = [
-      /trackingId/i,
-      /^\{.*\}$/,  // JSON objects
-      /^\[.*\]$/,  // JSON arrays
-      /^".*"$/,    // Quoted strings
-      /:\s*"/,     // JSON key-value pairs
-      /,\s*"/,     // JSON comma-separated values
-    ];
-    
-    for (const pattern of excludeJSONPatterns) {
-      if (pattern.test(cleaned)) return false;
-    }
-    
-    // Should not be common non-token strings or placeholders
-    const excludePatterns = [
-      /^example/i,
-      /^sample/i,
-      /^demo/i,
-      /^test/i,
-      /^your.token.here/i,
-      /^replace.with/i,
-      /^placeholder/i,
-      /^xxxxxxxx/i,
-      /^aaaaaa/i,
-      /^111111/i,
-      /^000000/i,
-      /^insert.your/i,
-      /^put.your/i,
-      /^add.your/i,
-      /^enter.your/i,
-      /^copy.your/i,
-      // Common placeholder patterns
-      /^[x]{10,}/i,  // Multiple x's
-      /^[a-z]{3,}[.][a-z]{3,}/i, // words with dots
-    ];
-    
-    for (const pattern of excludePatterns) {
-      if (pattern.test(cleaned)) return false;
-    }
-
-    // Webex tokens typically have mixed case and underscores/hyphens
-    const hasNumbers = /\d/.test(cleaned);
-    const hasUppercase = /[A-Z]/.test(cleaned);
-    const hasLowercase = /[a-z]/.test(cleaned);
-    const hasSpecialChars = /[_-]/.test(cleaned);
-    
-    if (!hasNumbers || !hasUppercase || !hasLowercase) {
-      return false;
-    }
-    
-    // Good sign if it has the typical Webex token structure
-    if (hasSpecialChars) {
-      return true;
-    }
-    
-    return true;
-  }
+  storeCommand
+    .command('status')
+    .description('Show the active token store backend')
+    .action(() => {
+      const profiles = new ProfileManager();
+      const config = profiles.getStoreConfig();
+      const locations = profiles.list().map(({ name }) => ({ profile: name, location: profiles.openStore(name).location() }));
+      emitResult('store status', { backend: config.backend, profiles: locations }, () => {
+        print(`🔐 Token store: ${config.backend}`);
+        for (const { profile, location } of locations) {
+          print(`   ${profile}: ${location}`);
+        }
+      });
+    });
 
-}
+  storeCommand
+    .command('migrate')
+    .description('Move stored tokens of every profile to another backend')
+    .addOption(new Option('--to <backend>', 'target backend').choices(STORE_BACKENDS).makeOptionMandatory())
+    .option('--get-command <command>', 'command store: prints the token record for {profile}')
+    .option('--set-command <command>', 'command store: reads the token record for {profile} from stdin')
+    .option('--delete-command <command>', 'command store: removes the token record for {profile}')
+    .action((options) => {
+      try {
+        const backend = options.to as StoreBackend;
+        const target: StoreConfig = { backend };
+        if (backend === 'command') {
+          if (!options.getCommand || !options.setCommand || !options.deleteCommand) {
+            throw new WebexAuthError('usage', 'The command store needs --get-command, --set-command and --delete-command');
+          }
+          target.commands = { get: options.getCommand, set: options.setCommand, delete: options.deleteCommand };
+        }
 
-async function main() {
-  const program = new Command();
+        const migrated = new ProfileManager().migrateStore(target);
+        emitResult('store migrate', { backend, migrated }, () => {
+          print(`✅ Token store switched to ${backend}`);
+          print(`📦 Migrated profiles: ${migrated.length > 0 ? migrated.join(', ') : 'none'}`);
+        });
+      } catch (error: any) {
+        fail('store migrate', error, 'Migration failed');
+      }
+    });
 
   program
-    .name('webex-auth')
-    .description('CLI tool to authenticate with Webex APIs and store tokens')
-    .version('1.0.0');
+    .command('doctor')
+    .description('Check the setup, stored token and browser, and suggest fixes')
+    .option('--offline', 'skip validating the token against the Webex API')
+    .option('--browser-path <path>', 'check this Chrome or Chromium executable instead of the bundled one')
+    .action(async (options) => {
+      try {
+        const profiles = new ProfileManager();
+        const profile = profiles.resolveName(program.opts().profile);
+        const checks = await new Doctor(profiles, profile, { offline: options.offline, browserPath: options.browserPath, environment: program.opts().env }).run();
+        const healthy = !checks.some(check => check.status === 'fail');
+
+        emitResult('doctor', { profile, healthy, checks }, () => {
+          const icons = { pass: '✅', warn: '⚠️ ', fail: '❌' };
+          print(`🩺 Checking profile "${profile}"`);
+          for (const check of checks) {
+            print(`${icons[check.status]} ${check.id}: ${check.message}`);
+            if (check.hint && check.status !== 'pass') {
+              print(`   💡 ${check.hint}`);
+            }
+          }
+          const count = (status: string) => checks.filter(check => check.status === status).length;
+          print(`\n${count('pass')} passed, ${count('warn')} warnings, ${count('fail')} failed`);
+        });
+
+        if (!healthy) {
+          process.exit(EXIT_CODES.error);
+        }
+      } catch (error: any) {
+        fail('doctor', error);
+      }
+    });
 
   program
-    .command('login')
-    .description('Automatically get your Webex Personal Access Token')
+    .command('logout')
+    .alias('revoke')
+    .description('Revoke and delete the stored tokens of a profile')
+    .option('--all', 'log out of every profile')
+    .option('--browser', 'also delete the browser session kept by login --keep-session')
+    .option('--no-revoke', 'only delete the local copies, without revoking OAuth tokens at the server')
+    .option('--revoke-url <url>', 'Authorizations API endpoint that revokes OAuth tokens (defaults to the environment\'s)')
     .action(async (options) => {
       try {
-        const tokenManager = new TokenManager();
-        await tokenManager.getTokenAutomatically();
+        const profiles = new ProfileManager();
+        const names = options.all
+          ? profiles.list().map(({ name }) => name)
+          : [profiles.resolveName(program.opts().profile)];
+
+        const results: LogoutResult[] = [];
+        // One profile that cannot be logged out must not keep --all from the others
+        for (const name of names) {
+          try {
+            results.push(await new TokenManager({ profile: name, environment: program.opts().env, logger: cliLogger }).logout({
+              revoke: options.revoke,
+              revokeUrl: options.revokeUrl,
+              browser: options.browser
+            }));
+          } catch (error: any) {
+            results.push({
+              profile: name,
+              hadToken: false,
+              revocation: 'skipped',
+              browserSession: false,
+              error: { code: errorCodeOf(error), message: error.message }
+            });
+          }
+        }
+
+        emitResult('logout', { profiles: results }, () => {
+          for (const result of results) {
+            if (result.error) {
+              print(`❌ Profile "${result.profile}": ${result.error.message}`);
+            } else if (!result.hadToken) {
+              print(`ℹ️  Profile "${result.profile}" had no stored token`);
+            } else {
+              print(`🗑️  Deleted the stored token of profile "${result.profile}"`);
+            }
+            if (result.revocation === 'revoked') {
+              print('   🔒 OAuth tokens revoked at the server');
+            } else if (result.revocation === 'not_supported') {
+              print('   ℹ️  This token type cannot be revoked through the API - regenerate it in the developer portal if it leaked');
+            } else if (result.revocation === 'failed') {
+              print(`   ⚠️  ${result.revocationError}`);
+            }
+            if (result.browserSession) {
+              print('   🧹 Deleted the kept browser session');
+            }
+          }
+          print('💡 Shells that already sourced webex-env.sh keep the old values until you run: unset WEBEX_ACCESS_TOKEN WEBEX_REFRESH_TOKEN WEBEX_TOKEN_EXPIRES_AT');
+        });
+
+        // Every profile was reported; the exit code tells scripts that one of them failed
+        const failed = results.find(result => result.error);
+        if (failed) {
+          process.exit(EXIT_CODES[failed.error!.code]);
+        }
       } catch (error: any) {
-        console.error('❌ Authentication failed:', error.message);
-        process.exit(1);
+        fail('logout', error, 'Logout failed');
       }
     });
 
   program
-    .command('info')
-    .description('Display information about stored tokens')
-    .action(() => {
-      const configDir = path.join(os.homedir(), '.webex-cli');
-      const envPath = path.join(configDir, '.env');
-      
-      if (!fs.existsSync(envPath)) {
-        console.log('❌ No token found. Run "webex-auth login" first.');
-        return;
+    .command('history')
+    .description('Show the audit log of token logins, refreshes, validations, replacements and logouts')
+    .addOption(new Option('--event <type>', 'only show events of this type').choices(AUDIT_EVENT_TYPES))
+    .option('-n, --limit <count>', 'show this many of the most recent entries', '50')
+    .option('--all', 'show every entry, including the rotated files')
+    .action((options) => {
+      try {
+        const limit = options.all ? undefined : parseIntegerOption(options.limit, '--limit', 1);
+        const audit = new AuditLog(new ProfileManager().configDir);
+        // Only an explicit --profile narrows the history; otherwise every profile is shown
+        const profile: string | undefined = program.opts().profile;
+        const events = audit.read({ profile, event: options.event, limit });
+
+        emitResult('history', { logFile: audit.path, profile: profile || null, event: options.event || null, events }, () => {
+          if (events.length === 0) {
+            print(`📭 No matching entries in ${audit.path}`);
+            return;
+          }
+          print(`📜 Token history from ${audit.path}:`);
+          const rows = events.map(event => [
+            new Date(event.time).toLocaleString(),
+            event.event,
+            event.profile,
+            event.source || '-',
+            event.result === 'success' ? 'ok' : `failed (${event.error?.code || 'error'})`,
+            event.fingerprint || '-',
+            event.identity ? event.identity.email || event.identity.displayName : '-',
+            event.error?.message || event.detail || ''
+          ]);
+          for (const line of formatTable(['TIME', 'EVENT', 'PROFILE', 'SOURCE', 'RESULT', 'TOKEN', 'ACCOUNT', 'DETAIL'], rows)) {
+            print(line);
+          }
+        });
+      } catch (error: any) {
+        fail('history', error);
       }
+    });
 
-      const envContent = fs.readFileSync(envPath, 'utf8');
-      const accessToken = envContent.match(/WEBEX_ACCESS_TOKEN=(.+)/)?.[1];
-      const refreshToken = envContent.match(/WEBEX_REFRESH_TOKEN=(.+)/)?.[1];
-      const expiresAt = envContent.match(/WEBEX_TOKEN_EXPIRES_AT=(.+)/)?.[1];
+  const signInCommand = program
+    .command('sign-in')
+    .description('Configure how the browser login fills in the sign-in forms');
 
-      if (!accessToken) {
-        console.log('❌ No Webex token found.');
-        return;
-      }
+  signInCommand
+    .command('status')
+    .description('Show the default email, auto-fill setting and identity-provider rules')
+    .action(() => {
+      const profiles = new ProfileManager();
+      const config = profiles.getSignInConfig();
+      const { plan } = loadStepPlan(path.join(profiles.configDir, 'portal-steps.json'));
+      const identityProviders = { ...plan.identityProviders, ...config.identityProviders };
+      const result = {
+        defaultEmail: config.defaultEmail || null,
+        autofill: config.autofill !== false,
+        keepSession: !!config.keepSession,
+        identityProviders
+      };
+      emitResult('sign-in status', result, () => {
+        print(`📧 Default email: ${result.defaultEmail || 'not set'}`);
+        print(`✍️  Auto-fill: ${result.autofill ? 'on' : 'off'}`);
+        print(`🍪 Keep browser session: ${result.keepSession ? 'on' : 'off'}`);
+        print('🏢 Identity providers:');
+        for (const [domain, idp] of Object.entries(identityProviders)) {
+          print(`   ${domain} → ${idp}`);
+        }
+        print(`   anything else → ${GENERIC_IDP}`);
+      });
+    });
 
-      console.log('📋 Webex Token Information:');
-      console.log(`📁 Config Directory: ~/.webex-cli/`);
-      console.log(`🔑 Access Token: ${accessToken.substring(0, 20)}...`);
-      if (refreshToken) {
-        console.log(`🔄 Refresh Token: ${refreshToken.substring(0, 20)}...`);
+  signInCommand
+    .command('set-email <address>')
+    .description('Set the email used when a profile has none of its own')
+    .action((address: string) => {
+      if (!EMAIL_PATTERN.test(address)) {
+        fail('sign-in set-email', new WebexAuthError('usage', `"${address}" is not an email address`));
       }
-      if (expiresAt) {
-        const expiryTimestamp = parseInt(expiresAt);
-        if (expiryTimestamp === 0) {
-          console.log(`⏰ Expires: Never (Personal Access Token)`);
-        } else {
-          const expiry = new Date(expiryTimestamp);
-          const isExpired = expiry < new Date();
-          console.log(`⏰ Expires: ${expiry.toLocaleString()} ${isExpired ? '(EXPIRED)' : ''}`);
-        }
+      const profiles = new ProfileManager();
+      profiles.setSignInConfig({ ...profiles.getSignInConfig(), defaultEmail: address });
+      emitResult('sign-in set-email', { defaultEmail: address }, () => {
+        print(`✅ Default sign-in email set to ${address}`);
+      });
+    });
+
+  signInCommand
+    .command('clear-email')
+    .description('Forget the default sign-in email')
+    .action(() => {
+      const profiles = new ProfileManager();
+      const { defaultEmail, ...rest } = profiles.getSignInConfig();
+      profiles.setSignInConfig(rest);
+      emitResult('sign-in clear-email', { defaultEmail: null }, () => {
+        print(defaultEmail ? `🗑️  Forgot default sign-in email ${defaultEmail}` : 'ℹ️  No default sign-in email was set');
+      });
+    });
+
+  signInCommand
+    .command('autofill')
+    .addArgument(new Argument('<state>').choices(['on', 'off']))
+    .description('Turn filling in the sign-in form on or off')
+    .action((state: string) => {
+      const profiles = new ProfileManager();
+      profiles.setSignInConfig({ ...profiles.getSignInConfig(), autofill: state === 'on' });
+      emitResult('sign-in autofill', { autofill: state === 'on' }, () => {
+        print(`✅ Sign-in auto-fill turned ${state}`);
+      });
+    });
+
+  signInCommand
+    .command('session')
+    .addArgument(new Argument('<state>').choices(['on', 'off']))
+    .description('Keep the browser session between logins (on) or start fresh every time (off)')
+    .action((state: string) => {
+      const profiles = new ProfileManager();
+      profiles.setSignInConfig({ ...profiles.getSignInConfig(), keepSession: state === 'on' });
+      emitResult('sign-in session', { keepSession: state === 'on' }, () => {
+        print(state === 'on'
+          ? '✅ Browser sessions will be kept - `webex-auth logout --browser` deletes one'
+          : '✅ Browser logins will start with a fresh session');
+      });
+    });
+
+  signInCommand
+    .command('map <domain> <idp>')
+    .description('Use the sign-in steps of an identity-provider type for an email domain')
+    .action((domain: string, idp: string) => {
+      const profiles = new ProfileManager();
+      const { plan } = loadStepPlan(path.join(profiles.configDir, 'portal-steps.json'));
+      const known = knownIdentityProviders(plan);
+      if (!known.includes(idp)) {
+        fail('sign-in map', new WebexAuthError('usage', `Unknown identity-provider type "${idp}" - use ${known.join(', ')}`));
       }
-      console.log(`💡 To load token: source ~/.webex-cli/webex-env.sh`);
+      const config = profiles.getSignInConfig();
+      const key = domain.toLowerCase().replace(/^@/, '');
+      profiles.setSignInConfig({ ...config, identityProviders: { ...config.identityProviders, [key]: idp } });
+      emitResult('sign-in map', { domain: key, idp }, () => {
+        print(`✅ ${key} now signs in with ${idp} steps`);
+      });
+    });
+
+  signInCommand
+    .command('unmap <domain>')
+    .description('Remove an email-domain rule')
+    .action((domain: string) => {
+      const profiles = new ProfileManager();
+      const config = profiles.getSignInConfig();
+      const key = domain.toLowerCase().replace(/^@/, '');
+      const { [key]: removed, ...identityProviders } = config.identityProviders || {};
+      profiles.setSignInConfig({ ...config, identityProviders });
+      emitResult('sign-in unmap', { domain: key, removed: removed !== undefined }, () => {
+        print(removed !== undefined ? `🗑️  Removed the rule for ${key}` : `ℹ️  No rule for ${key} in config.json`);
+      });
     });
 
   program
     .command('completion')
-    .description('Generate shell completion script')
-    .option('-s, --shell <shell>', 'shell type (zsh, bash, fish)', 'zsh')
+    .description('Generate a shell completion script, or install it with --install')
+    .addOption(new Option('-s, --shell <shell>', 'shell type (defaults to the shell in $SHELL, then zsh)').choices(COMPLETION_SHELLS))
+    .option('--install', 'write the script to where the shell loads completions from')
     .action((options) => {
-      const shell = options.shell.toLowerCase();
-      
-      if (shell === 'zsh') {
-        console.log(`#compdef webex-auth
-
-_webex-auth() {
-  local context state line
-  typeset -A opt_args
-
-  _arguments \\
-    '(-V --version)'{-V,--version}'[output the version number]' \\
-    '(-h --help)'{-h,--help}'[display help for command]' \\
-    '*:: :->command_or_args' && return 0
-
-  case $state in
-    command_or_args)
-      if (( CURRENT == 1 )); then
-        _values 'webex-auth commands' \\
-          'login[Automatically get your Webex Personal Access Token]' \\
-          'info[Display information about stored tokens]' \\
-          'completion[Generate shell completion script]' \\
-          'help[display help for command]'
-      else
-        case $words[1] in
-          completion)
-            _values 'shell types' \\
-              'zsh[Generate zsh completion]' \\
-              'bash[Generate bash completion]' \\
-              'fish[Generate fish completion]'
-            ;;
-          help)
-            _values 'help commands' \\
-              'login[help for login command]' \\
-              'info[help for info command]' \\
-              'completion[help for completion command]'
-            ;;
-        esac
-      fi
-      ;;
-  esac
-}
-
-_webex-auth "$@"`);
-      } else if (shell === 'bash') {
-        console.log(`_webex-auth() {
-  local cur prev opts
-  COMPREPLY=()
-  cur="\${COMP_WORDS[COMP_CWORD]}"
-  prev="\${COMP_WORDS[COMP_CWORD-1]}"
-  opts="login info completion help --version --help"
-
-  if [[ \${cur} == -* ]]; then
-    COMPREPLY=( $(compgen -W "--version --help" -- \${cur}) )
-    return 0
-  fi
-
-  if [[ \${COMP_CWORD} == 1 ]]; then
-    COMPREPLY=( $(compgen -W "\${opts}" -- \${cur}) )
-    return 0
-  fi
-
-  case "\${prev}" in
-    completion)
-      COMPREPLY=( $(compgen -W "zsh bash fish" -- \${cur}) )
-      return 0
-      ;;
-    help)
-      COMPREPLY=( $(compgen -W "login info completion" -- \${cur}) )
-      return 0
-      ;;
-    --shell|-s)
-      COMPREPLY=( $(compgen -W "zsh bash fish" -- \${cur}) )
-      return 0
-      ;;
-  esac
-}
+      const detected = path.basename(process.env.SHELL || '').replace(/^pwsh$/, 'powershell') as CompletionShell;
+      const shell: CompletionShell = options.shell || (COMPLETION_SHELLS.includes(detected) ? detected : 'zsh');
+      // Generated from the command tree, so new commands and options complete without edits here
+      const script = generateCompletion(program, shell);
+
+      if (!options.install) {
+        // The script is the command's output, so it is printed even with --quiet
+        emitResult('completion', { shell, script }, () => {
+          process.stdout.write(script);
+        });
+        return;
+      }
 
-complete -F _webex-auth webex-auth`);
-      } else if (shell === 'fish') {
-        console.log(`complete -c webex-auth -f
-complete -c webex-auth -s V -l version -d "output the version number"
-complete -c webex-auth -s h -l help -d "display help for command"
-complete -c webex-auth -n "__fish_use_subcommand" -a "login" -d "Automatically get your Webex Personal Access Token"
-complete -c webex-auth -n "__fish_use_subcommand" -a "info" -d "Display information about stored tokens"
-complete -c webex-auth -n "__fish_use_subcommand" -a "completion" -d "Generate shell completion script"
-complete -c webex-auth -n "__fish_use_subcommand" -a "help" -d "display help for command"
-complete -c webex-auth -n "__fish_seen_subcommand_from completion" -s s -l shell -d "shell type" -a "zsh bash fish"
-complete -c webex-auth -n "__fish_seen_subcommand_from help" -a "login info completion"`);
-      } else {
-        console.log(`❌ Unsupported shell: ${shell}`);
-        console.log(`💡 Supported shells: zsh, bash, fish`);
-        process.exit(1);
+      try {
+        const installedTo = completionInstallPath(shell, program.name());
+        fs.mkdirSync(path.dirname(installedTo), { recursive: true });
+        writeFileAtomic(installedTo, script, 0o644);
+        const hint = completionInstallHint(shell, installedTo);
+        emitResult('completion', { shell, installedTo, hint }, () => {
+          print(`✅ Installed ${shell} completion to ${installedTo}`);
+          print(`💡 ${hint}`);
+        });
+      } catch (error: any) {
+        fail('completion', error, 'Failed to install completion');
       }
     });
 
@@ -616,7 +924,8 @@ complete -c webex-auth -n "__fish_seen_subcommand_from help" -a "login info comp
 }
 
 if (require.main === module) {
-  main().catch(console.error);
+  main().catch((error) => fail('webex-auth', error));
 }
 
-export { TokenManager };
\ No newline at end of file
+// Kept so code importing the CLI module keeps working; new code should import the package root
+export * from './index';
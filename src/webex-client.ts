@@ -0,0 +1,200 @@
+import axios, { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { ErrorCode, WebexAuthError } from './errors';
+import { Logger, silentLogger } from './logger';
+import { NetworkOptions, applyNetworkOptions } from './network';
+import { TokenManager } from './token-manager';
+import { WebexEnvironment } from './environments';
+
+export { DEFAULT_API_BASE_URL } from './environments';
+
+export interface WebexClientOptions {
+  profile?: string;
+  configDir?: string;
+  // Defaults to the profile's environment
+  environment?: string | WebexEnvironment;
+  // Defaults to the token manager's, i.e. HTTPS_PROXY, NO_PROXY and the extra CA bundle
+  network?: NetworkOptions;
+  // Takes precedence over profile, configDir, environment and network
+  tokenManager?: TokenManager;
+  // e.g. http://localhost:9000/v1 for a mock server; defaults to the environment's API base URL
+  baseURL?: string;
+  timeout?: number;
+  // Retries per request for 429 and, on idempotent requests, 5xx responses
+  maxRetries?: number;
+  // First 5xx back-off delay; doubled on every further attempt
+  retryDelayMs?: number;
+  // A Retry-After longer than this fails the request instead of waiting
+  maxRetryAfterMs?: number;
+  logger?: Logger;
+}
+
+// Any failed API call; trackingId is what Webex support asks for
+export class WebexApiError extends WebexAuthError {
+  constructor(
+    code: ErrorCode,
+    message: string,
+    readonly status: number | undefined,
+    readonly trackingId: string | undefined,
+    readonly method: string,
+    readonly url: string,
+    readonly body?: any
+  ) {
+    super(code, message);
+    this.name = 'WebexApiError';
+  }
+}
+
+interface RetryState {
+  attempts: number;
+  refreshed: boolean;
+  injectToken: boolean;
+}
+
+type RetryableConfig = InternalAxiosRequestConfig & { webexRetry?: RetryState };
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+// Reading an encrypted or command store is not free, so the token is reused for a while
+const TOKEN_CACHE_MS = 60000;
+
+// Holds the token and the refresh in flight, shared by every request of one client
+class TokenSession {
+  private token?: { value: string; loadedAt: number };
+  private refreshing?: Promise<string | null>;
+
+  constructor(private tokens: TokenManager) {}
+
+  async current(): Promise<string> {
+    if (!this.token || Date.now() - this.token.loadedAt > TOKEN_CACHE_MS) {
+      this.token = { value: await this.tokens.getToken(), loadedAt: Date.now() };
+    }
+    return this.token.value;
+  }
+
+  // Concurrent 401s share one refresh. Resolves null when there is no newer token to retry with.
+  renew(rejected: string): Promise<string | null> {
+    this.refreshing ??= this.fetchNewer(rejected).finally(() => {
+      this.refreshing = undefined;
+    });
+    return this.refreshing;
+  }
+
+  private async fetchNewer(rejected: string): Promise<string | null> {
+    const stored = this.tokens.readStoredToken();
+    // Another request or process may already have stored a newer token
+    let value = stored && stored.accessToken !== rejected ? stored.accessToken : null;
+    if (!value && stored?.refreshToken) {
+      value = (await this.tokens.refreshToken()).access_token;
+    }
+    this.token = value ? { value, loadedAt: Date.now() } : undefined;
+    return value;
+  }
+}
+
+export function createWebexClient(options: WebexClientOptions = {}): AxiosInstance {
+  const tokens = options.tokenManager || new TokenManager({
+    profile: options.profile,
+    configDir: options.configDir,
+    environment: options.environment,
+    network: options.network
+  });
+  const session = new TokenSession(tokens);
+  const logger = options.logger || silentLogger;
+  const maxRetries = options.maxRetries ?? 3;
+  const retryDelayMs = options.retryDelayMs ?? 1000;
+  const maxRetryAfterMs = options.maxRetryAfterMs ?? 60000;
+
+  const client = applyNetworkOptions(axios.create({
+    baseURL: options.baseURL || tokens.environment.apiBaseUrl,
+    timeout: options.timeout ?? 30000
+  }), options.network || tokens.network);
+
+  client.interceptors.request.use(async (config: RetryableConfig) => {
+    // An explicit Authorization header is left alone, and then never refreshed either
+    config.webexRetry ??= { attempts: 0, refreshed: false, injectToken: !config.headers.Authorization };
+    if (config.webexRetry.injectToken) {
+      config.headers.Authorization = `Bearer ${await session.current()}`;
+    }
+    return config;
+  });
+
+  client.interceptors.response.use(undefined, async (error: AxiosError) => {
+    // E.g. a TokenNotFoundError thrown while adding the token
+    if (!axios.isAxiosError(error)) {
+      throw error;
+    }
+    const config = error.config as RetryableConfig | undefined;
+    const state = config?.webexRetry;
+    const status = error.response?.status;
+    if (!config || !state) {
+      throw toApiError(error);
+    }
+
+    if (status === 401 && state.injectToken && !state.refreshed) {
+      state.refreshed = true;
+      const rejected = String(config.headers.Authorization).replace(/^Bearer\s+/i, '');
+      if (await session.renew(rejected)) {
+        logger.info('🔄 Retrying with a refreshed access token');
+        return client.request(config);
+      }
+      throw toApiError(error);
+    }
+
+    const delay = retryDelay(error, state.attempts, retryDelayMs);
+    if (delay === null || state.attempts >= maxRetries) {
+      throw toApiError(error);
+    }
+    if (delay > maxRetryAfterMs) {
+      throw toApiError(error, ` - Retry-After of ${Math.round(delay / 1000)}s exceeds the limit of ${Math.round(maxRetryAfterMs / 1000)}s`);
+    }
+
+    state.attempts++;
+    logger.warn(`⏳ ${status} from ${config.method?.toUpperCase()} ${config.url} - retry ${state.attempts}/${maxRetries} in ${(delay / 1000).toFixed(1)}s`);
+    await new Promise(resolve => setTimeout(resolve, delay));
+    return client.request(config);
+  });
+
+  return client;
+}
+
+// null when the request must not be retried
+function retryDelay(error: AxiosError, attempt: number, baseDelayMs: number): number | null {
+  const status = error.response?.status;
+  if (status === 429) {
+    return parseRetryAfter(error.response!) ?? baseDelayMs * 2 ** attempt;
+  }
+  // A POST that failed on the server may still have been carried out, e.g. a sent message
+  const idempotent = IDEMPOTENT_METHODS.includes((error.config?.method || 'get').toLowerCase());
+  if (status && status >= 500 && idempotent) {
+    return parseRetryAfter(error.response!) ?? baseDelayMs * 2 ** attempt;
+  }
+  return null;
+}
+
+function parseRetryAfter(response: AxiosResponse): number | null {
+  const header = response.headers['retry-after'];
+  if (!header) {
+    return null;
+  }
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(String(header));
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function toApiError(error: AxiosError, suffix: string = ''): WebexApiError {
+  const response = error.response;
+  const body: any = response?.data;
+  const trackingId = body?.trackingId || response?.headers['trackingid'] || undefined;
+  const method = (error.config?.method || 'get').toUpperCase();
+  const url = error.config ? axios.getUri(error.config) : '';
+
+  if (!response) {
+    return new WebexApiError('network_failure', `${method} ${url} failed: ${error.message}${suffix}`, undefined, undefined, method, url);
+  }
+  const details = body?.message || body?.errors?.[0]?.description || response.statusText || error.message;
+  const code: ErrorCode = response.status === 401 ? 'validation_failed' : 'error';
+  const message = `${method} ${url} failed with ${response.status}: ${details}${trackingId ? ` (trackingId ${trackingId})` : ''}${suffix}`;
+  return new WebexApiError(code, message, response.status, trackingId, method, url, body);
+}
@@ -0,0 +1,49 @@
+import test from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AuditLog, tokenFingerprint } from '../src/audit-log';
+import { WebexAuthError } from '../src/errors';
+import { tempConfigDir } from './helpers';
+
+test('rotation keeps the log within maxFiles and read returns the events oldest first', () => {
+  const configDir = tempConfigDir();
+  const log = new AuditLog(configDir, { maxBytes: 600, maxFiles: 2 });
+  for (let index = 1; index <= 12; index++) {
+    log.record({ event: 'refresh', profile: index % 2 ? 'odd' : 'even', source: 'refresh', detail: `#${index}` });
+  }
+
+  assert.deepEqual(log.files().map(file => path.basename(file)), ['audit.jsonl', 'audit.1.jsonl', 'audit.2.jsonl']);
+  assert.equal(fs.existsSync(path.join(configDir, 'audit.3.jsonl')), false);
+  for (const file of log.files()) {
+    assert.ok(fs.statSync(file).size <= 600, `${file} grew past maxBytes`);
+  }
+
+  // The oldest events aged out; the rest follow each other without gaps
+  const details = log.read().map(event => Number(event.detail!.slice(1)));
+  assert.ok(details.length < 12 && details.length >= 3);
+  assert.deepEqual(details, details.map((_, index) => 12 - details.length + 1 + index));
+
+  assert.deepEqual(log.read({ limit: 2 }).map(event => event.detail), ['#11', '#12']);
+  assert.ok(log.read({ profile: 'even' }).every(event => event.profile === 'even'));
+  assert.deepEqual(log.read({ profile: 'odd', limit: 1 }).map(event => event.detail), ['#11']);
+  assert.deepEqual(log.read({ event: 'login' }), []);
+});
+
+test('a line cut short is skipped and tokens are only recorded by their fingerprint', () => {
+  const configDir = tempConfigDir();
+  const log = new AuditLog(configDir);
+  const token = 'NmQ5YzFhZWQtsecret-access-token';
+  log.record({ event: 'login', profile: 'work', source: 'import', token, tokenType: 'pat', environment: 'commercial' });
+  fs.appendFileSync(log.path, '{"time":"2026-01-01T00:00:00.000Z","event":"val');
+  fs.appendFileSync(log.path, '\n');
+  log.record({ event: 'validate', profile: 'work', token, error: new WebexAuthError('token_expired', 'The token has expired') });
+
+  const events = log.read();
+  assert.deepEqual(events.map(event => event.event), ['login', 'validate']);
+  assert.equal(events[0].result, 'success');
+  assert.equal(events[0].fingerprint, tokenFingerprint(token));
+  assert.equal(events[1].result, 'failure');
+  assert.deepEqual(events[1].error, { code: 'token_expired', message: 'The token has expired' });
+  assert.equal(fs.readFileSync(log.path, 'utf8').includes(token), false);
+});
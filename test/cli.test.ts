@@ -0,0 +1,172 @@
+import test, { after, before } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { EXIT_CODES } from '../src/errors';
+import { MockWebex } from './fixtures/mock-webex';
+import { tempConfigDir } from './helpers';
+
+const ROOT = path.join(__dirname, '..');
+const CLI = path.join(ROOT, 'src', 'webex-auth.ts');
+// Settings of the developer's own shell that would leak into the runs
+const INHERITED = ['WEBEX_AUTH_STORE_KEY', 'WEBEX_AUTH_STORE_PASSPHRASE', 'WEBEX_PROFILE', 'WEBEX_ENV', 'WEBEX_ACCESS_TOKEN', 'WEBEX_CLIENT_ID', 'WEBEX_CLIENT_SECRET', 'HTTPS_PROXY', 'https_proxy', 'HTTP_PROXY', 'http_proxy'];
+
+interface CliRun {
+  status: number;
+  stdout: string;
+  stderr: string;
+}
+
+const mock = new MockWebex();
+const home = tempConfigDir();
+
+before(async () => {
+  await mock.start();
+  const configDir = path.join(home, '.webex-cli');
+  fs.mkdirSync(configDir, { recursive: true });
+  fs.writeFileSync(path.join(configDir, 'config.json'), JSON.stringify({
+    environments: { mock: { apiBaseUrl: mock.apiBaseUrl, portalUrl: mock.portalUrl } }
+  }));
+});
+after(() => mock.stop());
+
+// Asynchronous, so the mock server in this process can answer the CLI
+function webexAuth(...args: string[]): Promise<CliRun> {
+  return webexAuthWithEnv({}, ...args);
+}
+
+function webexAuthWithEnv(extra: NodeJS.ProcessEnv, ...args: string[]): Promise<CliRun> {
+  const env: NodeJS.ProcessEnv = { ...process.env, HOME: home };
+  INHERITED.forEach(key => delete env[key]);
+  Object.assign(env, extra);
+  return new Promise(resolve => {
+    execFile(process.execPath, ['--require', 'ts-node/register/transpile-only', CLI, ...args], { cwd: ROOT, env }, (error, stdout, stderr) => {
+      resolve({ status: error ? Number(error.code) : 0, stdout, stderr });
+    });
+  });
+}
+
+const token = mock.issueToken();
+
+test('login --token imports and validates a token against the selected environment', async () => {
+  const run = await webexAuth('--env', 'mock', '--profile', 'work', '--json', 'login', '--token', token);
+  assert.equal(run.status, 0, run.stderr);
+  const result = JSON.parse(run.stdout);
+  assert.equal(result.ok, true);
+  assert.equal(result.method, 'import');
+  assert.equal(result.tokenType, 'pat');
+  assert.equal(result.environment, 'mock');
+  assert.equal(result.identity.displayName, mock.person.displayName);
+});
+
+test('info reports the stored token from the profile\'s files', async () => {
+  const run = await webexAuth('--profile', 'work', '--json', 'info');
+  assert.equal(run.status, 0, run.stderr);
+  const result = JSON.parse(run.stdout);
+  assert.equal(result.profile, 'work');
+  assert.equal(result.environment, 'mock');
+  assert.equal(result.tokenType, 'pat');
+  assert.equal(result.hasRefreshToken, false);
+  assert.equal(result.expiresAt, null);
+  assert.equal(result.identity.emails[0], mock.person.emails[0]);
+  assert.match(result.store, /^plain \(.*profiles\/work\/\.env\)$/);
+});
+
+test('token prints the stored token for scripts', async () => {
+  const raw = await webexAuth('--profile', 'work', 'token');
+  assert.equal(raw.stdout, `${token}\n`);
+
+  const env = await webexAuth('--profile', 'work', 'token', '--format', 'env');
+  assert.equal(env.stdout, `export WEBEX_ACCESS_TOKEN='${token}'\nexport WEBEX_TOKEN_EXPIRES_AT='0'\n`);
+});
+
+test('a profile without a token exits with the no_token code', async () => {
+  const run = await webexAuth('--profile', 'empty', '--json', 'info');
+  assert.equal(run.status, EXIT_CODES.no_token);
+  assert.equal(JSON.parse(run.stdout).error.code, 'no_token');
+});
+
+test('commands on a profile that does not exist exit with the usage code', async () => {
+  for (const args of [['profiles', 'use', 'nope'], ['profiles', 'delete', 'nope'], ['--profile', 'nope', 'env', 'use', 'commercial']]) {
+    const run = await webexAuth('--json', ...args);
+    assert.equal(run.status, EXIT_CODES.usage, args.join(' '));
+    const { error } = JSON.parse(run.stdout);
+    assert.equal(error.code, 'usage');
+    assert.match(error.message, /Profile "nope" does not exist/);
+  }
+});
+
+test('history lists the login without the token', async () => {
+  const run = await webexAuth('--json', 'history', '--event', 'login');
+  assert.equal(run.status, 0, run.stderr);
+  const { events } = JSON.parse(run.stdout);
+  assert.equal(events.length, 1);
+  assert.equal(events[0].profile, 'work');
+  assert.match(events[0].fingerprint, /^sha256:[0-9a-f]{16}$/);
+  assert.equal(run.stdout.includes(token), false);
+});
+
+test('history rejects a --limit that is not a positive whole number', async () => {
+  for (const limit of ['5abc', '1.9', '0', '-3']) {
+    const run = await webexAuth('--json', 'history', '--limit', limit);
+    assert.equal(run.status, EXIT_CODES.usage, limit);
+    assert.equal(JSON.parse(run.stdout).error.code, 'usage');
+  }
+});
+
+test('sign-in map only accepts known identity-provider types', async () => {
+  const rejected = await webexAuth('--json', 'sign-in', 'map', 'example.com', 'bogus-idp');
+  assert.equal(rejected.status, EXIT_CODES.usage);
+  assert.match(JSON.parse(rejected.stdout).error.message, /Unknown identity-provider type "bogus-idp" - use generic, cisco-sso/);
+
+  const mapped = await webexAuth('--json', 'sign-in', 'map', 'example.com', 'cisco-sso');
+  assert.equal(mapped.status, 0, mapped.stderr);
+  const status = await webexAuth('--json', 'sign-in', 'status');
+  assert.equal(JSON.parse(status.stdout).identityProviders['example.com'], 'cisco-sso');
+  await webexAuth('sign-in', 'unmap', 'example.com');
+});
+
+test('progress messages go to stderr and --quiet drops them', async () => {
+  const run = await webexAuth('--env', 'mock', '--profile', 'other', 'login', '--token', mock.issueToken());
+  assert.equal(run.status, 0, run.stderr);
+  assert.equal(run.stdout, '');
+  assert.match(run.stderr, new RegExp(`Authenticated as: ${mock.person.displayName}`));
+
+  const quiet = await webexAuth('--env', 'mock', '--profile', 'other', '--quiet', 'login', '--token', mock.issueToken());
+  assert.equal(quiet.status, 0, quiet.stderr);
+  assert.equal(quiet.stdout + quiet.stderr, '');
+
+  const info = await webexAuth('--profile', 'other', 'info');
+  assert.match(info.stdout, /Profile: other/);
+});
+
+// Runs last: it moves every profile to the encrypted store
+test('logout --all deletes every profile\'s files even when their tokens cannot be decrypted', async () => {
+  const key = { WEBEX_AUTH_STORE_KEY: 'a'.repeat(64) };
+  const migrate = await webexAuthWithEnv(key, '--json', 'store', 'migrate', '--to', 'encrypted');
+  assert.equal(migrate.status, 0, migrate.stderr);
+  assert.deepEqual(JSON.parse(migrate.stdout).migrated.sort(), ['other', 'work']);
+
+  // A wrong key and a malformed one are told apart
+  const wrongKey = await webexAuthWithEnv({ WEBEX_AUTH_STORE_KEY: 'b'.repeat(64) }, '--profile', 'work', '--json', 'info');
+  assert.equal(wrongKey.status, EXIT_CODES.error);
+  assert.equal(JSON.parse(wrongKey.stdout).error.code, 'error');
+  assert.match(JSON.parse(wrongKey.stdout).error.message, /Could not decrypt/);
+  const badKey = await webexAuthWithEnv({ WEBEX_AUTH_STORE_KEY: 'short' }, '--profile', 'work', '--json', 'info');
+  assert.equal(badKey.status, EXIT_CODES.usage);
+  assert.match(JSON.parse(badKey.stdout).error.message, /must be 32 bytes/);
+
+  const run = await webexAuth('--json', 'logout', '--all', '--no-revoke');
+  assert.equal(run.status, EXIT_CODES.usage);
+  const { profiles } = JSON.parse(run.stdout);
+  assert.deepEqual(profiles.map((result: any) => result.profile).sort(), ['other', 'work']);
+  for (const result of profiles) {
+    assert.equal(result.hadToken, true);
+    assert.equal(result.error.code, 'usage');
+    assert.match(result.error.message, /WEBEX_AUTH_STORE_KEY/);
+  }
+
+  const info = await webexAuthWithEnv(key, '--profile', 'work', '--json', 'info');
+  assert.equal(info.status, EXIT_CODES.no_token, info.stdout);
+});
@@ -0,0 +1,123 @@
+import test, { after, before } from 'node:test';
+import * as assert from 'node:assert/strict';
+import axios from 'axios';
+import { CredentialClient, CredentialServer, CredentialSource, readServeInfo } from '../src/credential-server';
+import { TokenManager } from '../src/token-manager';
+import { TokenNotFoundError, WebexAuthError } from '../src/errors';
+import { Logger } from '../src/logger';
+import { MockWebex } from './fixtures/mock-webex';
+import { tempConfigDir } from './helpers';
+
+const mock = new MockWebex();
+before(() => mock.start());
+after(() => mock.stop());
+
+function recordingLogger(): Logger & { lines: string[] } {
+  const lines: string[] = [];
+  return { lines, info: message => lines.push(message), warn: message => lines.push(message) };
+}
+
+test('on 127.0.0.1 only clients with the secret from serve.json get a token', async () => {
+  const configDir = tempConfigDir();
+  const token = mock.issueToken();
+  const sourceFor = (profile?: string) => new TokenManager({ profile: profile || 'work', configDir, environment: mock.environment(), network: {} });
+  await sourceFor().saveToken({ access_token: token, refresh_token: '', expires_in: 0, token_type: 'Bearer' }, { type: 'pat', quiet: true });
+
+  const server = new CredentialServer({ sourceFor, configDir, port: 0, refreshMarginSeconds: 300 });
+  const info = await server.start();
+  try {
+    assert.deepEqual(readServeInfo(configDir), info);
+    for (const secret of [undefined, 'wrong', `${info.secret}x`]) {
+      const response = await axios.get(`${info.url}/token`, {
+        headers: secret ? { 'X-Webex-Auth-Secret': secret } : {},
+        proxy: false,
+        validateStatus: () => true
+      });
+      assert.equal(response.status, 401, String(secret));
+      assert.equal(JSON.stringify(response.data).includes(token), false);
+    }
+
+    const client = CredentialClient.fromConfig(configDir);
+    assert.equal(await client.getToken(), token);
+    await assert.rejects(client.getToken('nobody'), TokenNotFoundError);
+  } finally {
+    server.stop();
+  }
+  assert.equal(readServeInfo(configDir), null);
+});
+
+test('a profile that can no longer be opened is dropped by the background refresh instead of ending the server', async (t) => {
+  t.mock.timers.enable({ apis: ['setInterval', 'Date'], now: Date.now() });
+  const configDir = tempConfigDir();
+  let broken = false;
+  const source: CredentialSource = {
+    profile: 'work',
+    readStoredToken: () => null,
+    getValidAccessToken: async () => 'served-token',
+    refreshToken: async () => { throw new Error('not refreshable'); },
+    whoami: async () => { throw new Error('not needed'); }
+  };
+  const logger = recordingLogger();
+  const server = new CredentialServer({
+    sourceFor: () => {
+      if (broken) {
+        throw new WebexAuthError('usage', 'config.json is not valid JSON');
+      }
+      return source;
+    },
+    configDir,
+    socketPath: `${configDir}/serve.sock`,
+    refreshMarginSeconds: 300,
+    logger
+  });
+  await server.start();
+  try {
+    const client = CredentialClient.fromConfig(configDir);
+    assert.equal(await client.getToken(), 'served-token');
+
+    broken = true;
+    t.mock.timers.tick(60001);
+    await new Promise(resolve => setImmediate(resolve));
+    assert.deepEqual(logger.lines, ['⚠️  Could not refresh the token of profile "work": config.json is not valid JSON']);
+    await assert.rejects(client.getToken(), /config\.json is not valid JSON/);
+  } finally {
+    server.stop();
+  }
+});
+
+test('a refresh asked for while the token is being read returns a refreshed token', async () => {
+  const configDir = tempConfigDir();
+  let finishRead!: () => void;
+  const reading = new Promise<void>(resolve => finishRead = resolve);
+  let current = 'old-token';
+  const source: CredentialSource = {
+    profile: 'work',
+    readStoredToken: () => null,
+    getValidAccessToken: async () => {
+      const token = current;
+      await reading;
+      return token;
+    },
+    refreshToken: async () => {
+      current = 'new-token';
+      return { access_token: current, refresh_token: 'refresh', expires_in: 3600, token_type: 'Bearer' };
+    },
+    whoami: async () => { throw new Error('not needed'); }
+  };
+  const server = new CredentialServer({ sourceFor: () => source, configDir, socketPath: `${configDir}/serve.sock`, refreshMarginSeconds: 300 });
+  await server.start();
+  try {
+    const client = CredentialClient.fromConfig(configDir);
+    const read = client.getToken();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    const refreshed = client.refresh();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    finishRead();
+
+    assert.equal(await read, 'old-token');
+    assert.equal((await refreshed).accessToken, 'new-token');
+    assert.equal(await client.getToken(), 'new-token');
+  } finally {
+    server.stop();
+  }
+});
@@ -0,0 +1,39 @@
+import test from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Page } from 'puppeteer';
+import { FlowDiagnostics } from '../src/diagnostics';
+import { mockToken } from './fixtures/mock-webex';
+import { tempConfigDir } from './helpers';
+
+// Just enough of a page for capture(): the screenshot is a placeholder file
+function fakePage(html: string): Page {
+  return {
+    url: () => 'https://developer.webex.com/docs/getting-started',
+    content: async () => html,
+    screenshot: async (options: { path: string }) => fs.writeFileSync(options.path, 'png')
+  } as unknown as Page;
+}
+
+test('no screenshots are taken once the token can be on screen, and the text artifacts are scrubbed', async () => {
+  const token = mockToken();
+  const diagnostics = new FlowDiagnostics(tempConfigDir());
+  await diagnostics.capture(fakePage('<p>Sign in</p>'), '01-click-login');
+  diagnostics.stopScreenshots('phase "extract-token" can show the token');
+  await diagnostics.capture(fakePage(`<input value="${token}">`), '02-read-modal-token');
+  await diagnostics.capture(fakePage(`<input value="${token}">`), '03-click-confirm-copy-failed', new Error(`rejected ${token}`));
+  diagnostics.scrub([token, '']);
+
+  const files = fs.readdirSync(diagnostics.runDir).sort();
+  assert.deepEqual(files, [
+    '01-click-login.html', '01-click-login.png',
+    '02-read-modal-token.html',
+    '03-click-confirm-copy-failed.html',
+    'diagnostics.log'
+  ]);
+  for (const file of files) {
+    assert.equal(fs.readFileSync(path.join(diagnostics.runDir, file), 'utf8').includes(token), false, file);
+  }
+  assert.match(fs.readFileSync(path.join(diagnostics.runDir, '02-read-modal-token.html'), 'utf8'), /\[REDACTED TOKEN\]/);
+});
@@ -0,0 +1,150 @@
+import test from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+// The module object itself: the namespace import's bindings cannot be mocked
+import fsModule from 'fs';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { DotenvDocument, formatShellExport, formatValue, readDotenv, updateDotenv, waitForFileLock, withFileLock } from '../src/dotenv';
+import { PlaintextFileStore } from '../src/token-store';
+import { tempConfigDir } from './helpers';
+
+test('parses bare, quoted, exported and multi-line values', () => {
+  const document = DotenvDocument.parse([
+    '# comment',
+    'PLAIN=value # inline comment',
+    'export EXPORTED=yes',
+    'SINGLE=\'a $b \\n\'',
+    'DOUBLE="tab\\there \\"quoted\\""',
+    'MULTI="first',
+    'second"',
+    'EMPTY=',
+    ''
+  ].join('\n'));
+
+  assert.equal(document.get('PLAIN'), 'value');
+  assert.equal(document.get('EXPORTED'), 'yes');
+  assert.equal(document.get('SINGLE'), 'a $b \\n');
+  assert.equal(document.get('DOUBLE'), 'tab\there "quoted"');
+  assert.equal(document.get('MULTI'), 'first\nsecond');
+  assert.equal(document.get('EMPTY'), '');
+  assert.deepEqual(document.keys(), ['PLAIN', 'EXPORTED', 'SINGLE', 'DOUBLE', 'MULTI', 'EMPTY']);
+});
+
+test('the last assignment wins, and set() removes later duplicates', () => {
+  const document = DotenvDocument.parse('KEY=one\nOTHER=x\nKEY=two\n');
+  assert.equal(document.get('KEY'), 'two');
+  document.set('KEY', 'three');
+  assert.equal(document.toString(), 'KEY=three\nOTHER=x\n');
+});
+
+test('unrelated lines round-trip byte for byte', () => {
+  const content = '# keep me\nexport USER_VAR="spaced value"\n\nWEBEX_ACCESS_TOKEN=old\n';
+  const document = DotenvDocument.parse(content);
+  assert.equal(document.toString(), content);
+
+  document.set('WEBEX_ACCESS_TOKEN', 'new');
+  document.set('ADDED', 'a b');
+  assert.equal(document.toString(), '# keep me\nexport USER_VAR="spaced value"\n\nWEBEX_ACCESS_TOKEN=new\nADDED="a b"\n');
+  document.delete('ADDED');
+  document.delete('WEBEX_ACCESS_TOKEN');
+  assert.equal(document.isEmpty(), false);
+});
+
+test('formatted values read back the same, in the parser and in a shell', () => {
+  const values = ['simple', 'with space', 'quote " and \\ backslash', 'dollar $HOME `tick`', 'line\nbreak'];
+  for (const value of values) {
+    assert.equal(DotenvDocument.parse(`KEY=${formatValue(value)}\n`).get('KEY'), value);
+  }
+  assert.equal(formatValue('Y2lz_abc-123'), 'Y2lz_abc-123');
+
+  const script = values.map((value, index) => formatShellExport(`VALUE_${index}`, value)).join('\n');
+  const printed = execFileSync('sh', ['-c', `${script}\nprintf '%s\\0' "$VALUE_0" "$VALUE_1" "$VALUE_2" "$VALUE_3"`], { encoding: 'utf8' });
+  assert.deepEqual(printed.split('\0').slice(0, 4), values.slice(0, 4));
+});
+
+test('updateDotenv writes owner-only files and deletes them once empty', () => {
+  const file = path.join(tempConfigDir(), 'profiles', 'work', '.env');
+  updateDotenv(file, document => document.set('KEY', 'value'));
+  assert.equal(fs.readFileSync(file, 'utf8'), 'KEY=value\n');
+  assert.equal(fs.statSync(file).mode & 0o777, 0o600);
+  assert.equal(readDotenv(file)?.get('KEY'), 'value');
+
+  updateDotenv(file, document => document.delete('KEY'));
+  assert.equal(fs.existsSync(file), false);
+  assert.equal(readDotenv(file), null);
+});
+
+test('withFileLock takes over a stale lock and releases its own', async () => {
+  const file = path.join(tempConfigDir(), '.env');
+  fs.writeFileSync(`${file}.lock`, '');
+  // Older than the stale threshold but younger than the wait timeout
+  const stale = new Date(Date.now() - 5000);
+  fs.utimesSync(`${file}.lock`, stale, stale);
+
+  await waitForFileLock(file);
+  assert.equal(fs.existsSync(`${file}.lock`), true);
+  assert.equal(withFileLock(file, () => fs.existsSync(`${file}.lock`)), true);
+  assert.equal(fs.existsSync(`${file}.lock`), false);
+});
+
+test('a writer that finds a lock stale does not remove the lock another writer took over meanwhile', t => {
+  const file = path.join(tempConfigDir(), '.env');
+  const lockPath = `${file}.lock`;
+  fs.writeFileSync(lockPath, '');
+  const stale = new Date(Date.now() - 5000);
+  fs.utimesSync(lockPath, stale, stale);
+
+  // Right after this writer finds the lock stale, another one takes it over and holds it
+  // until this writer next looks at it
+  const statSync = fsModule.statSync;
+  let lookups = 0;
+  let otherHoldsLock = false;
+  t.mock.method(fsModule, 'statSync', (target: fs.PathLike, options?: any) => {
+    if (target === lockPath && ++lookups === 1) {
+      const found = statSync(target, options);
+      fsModule.rmSync(lockPath);
+      fsModule.writeFileSync(lockPath, '');
+      otherHoldsLock = true;
+      return found;
+    }
+    if (target === lockPath && otherHoldsLock) {
+      fsModule.rmSync(lockPath, { force: true });
+      otherHoldsLock = false;
+    }
+    return statSync(target, options);
+  });
+
+  withFileLock(file, () => assert.equal(otherHoldsLock, false, 'both writers held the lock'));
+  assert.ok(lookups >= 2);
+  assert.deepEqual(fs.readdirSync(path.dirname(file)), []);
+});
+
+test('waitForFileLock waits for another writer without blocking the event loop', async () => {
+  const file = path.join(tempConfigDir(), '.env');
+  fs.writeFileSync(`${file}.lock`, '');
+  let ticks = 0;
+  const ticker = setInterval(() => ticks++, 10);
+  setTimeout(() => fs.rmSync(`${file}.lock`), 300);
+  try {
+    await waitForFileLock(file);
+  } finally {
+    clearInterval(ticker);
+  }
+  assert.ok(ticks >= 10, `only ${ticks} ticks while waiting`);
+  assert.equal(fs.existsSync(`${file}.lock`), false);
+});
+
+test('the plaintext store only touches the token keys', () => {
+  const file = path.join(tempConfigDir(), '.env');
+  fs.writeFileSync(file, '# my settings\nMY_ROOM_ID=abc\nWEBEX_ACCESS_TOKEN=stale\n');
+  const store = new PlaintextFileStore(file);
+
+  store.write({ WEBEX_ACCESS_TOKEN: 'fresh', WEBEX_TOKEN_EXPIRES_AT: '0' });
+  assert.deepEqual(store.read(), { WEBEX_ACCESS_TOKEN: 'fresh', WEBEX_TOKEN_EXPIRES_AT: '0' });
+  assert.match(fs.readFileSync(file, 'utf8'), /^# my settings\nMY_ROOM_ID=abc\n/);
+
+  store.clear();
+  assert.equal(store.read(), null);
+  assert.equal(fs.readFileSync(file, 'utf8'), '# my settings\nMY_ROOM_ID=abc\n');
+});
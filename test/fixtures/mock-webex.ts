@@ -0,0 +1,384 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { WebexEnvironment, toEnvironment } from '../../src/environments';
+
+// A local stand-in for the Webex API, its OAuth endpoints and the developer portal, so the
+// login flows run end to end without the network. The portal pages carry the ids and classes
+// that the built-in step plan looks for.
+
+export interface MockAccount {
+  id: string;
+  displayName: string;
+  emails: string[];
+  orgId: string;
+  type: 'person' | 'bot' | 'appuser';
+}
+
+export interface MockClient {
+  clientId: string;
+  clientSecret: string;
+}
+
+// A canned answer for the next request to a route, e.g. a 429 with Retry-After
+export interface MockFailure {
+  status: number;
+  headers?: Record<string, string>;
+  message?: string;
+  trackingId?: string;
+}
+
+// One user's consent to the integration; refreshing adds tokens to it, deleting it revokes them all
+export interface MockAuthorization {
+  id: string;
+  clientId: string;
+  account: MockAccount;
+}
+
+interface PendingCode {
+  redirectUri: string;
+  codeChallenge: string;
+  account: MockAccount;
+}
+
+const ACCESS_TOKEN_LIFETIME = 1209599;
+const REFRESH_TOKEN_LIFETIME = 7775999;
+const SESSION_COOKIE = 'portal_session';
+
+// Shaped like the real thing, so it passes the token-format heuristics
+export function mockToken(): string {
+  return `Y2lz${crypto.randomBytes(48).toString('base64url')}_PF84_${crypto.randomUUID()}`;
+}
+
+export class MockWebex {
+  readonly person: MockAccount = {
+    id: 'Y2lzY29zcGFyazovL3VzL1BFT1BMRS9tb2NrLXBlcnNvbg',
+    displayName: 'Jane Doe',
+    emails: ['jane@example.com'],
+    orgId: 'Y2lzY29zcGFyazovL3VzL09SR0FOSVpBVElPTi9tb2Nr',
+    type: 'person'
+  };
+  readonly bot: MockAccount = {
+    id: 'Y2lzY29zcGFyazovL3VzL1BFT1BMRS9tb2NrLWJvdA',
+    displayName: 'Build Bot',
+    emails: ['build-bot@webex.bot'],
+    orgId: this.person.orgId,
+    type: 'bot'
+  };
+  readonly serviceApp: MockAccount = {
+    id: 'Y2lzY29zcGFyazovL3VzL1BFT1BMRS9tb2NrLWFwcA',
+    displayName: 'Provisioning App',
+    emails: ['provisioning@example.com'],
+    orgId: this.person.orgId,
+    type: 'appuser'
+  };
+  readonly client: MockClient = { clientId: 'Cmock0integration0client0id', clientSecret: 'mock-client-secret' };
+  readonly serviceAppId = 'Y2lzY29zcGFyazovL3VzL0FQUExJQ0FUSU9OL21vY2s';
+
+  // Every request, e.g. "POST /v1/access_token", for assertions on what a flow called
+  readonly requests: string[] = [];
+  readonly revoked = new Set<string>();
+  // Answered in order before the route itself, keyed like requests, e.g. "GET /v1/people/me"
+  readonly failures = new Map<string, MockFailure[]>();
+  // The token the portal shows after sign-in; replace it to serve one the API rejects
+  portalToken: string;
+
+  private server?: http.Server;
+  private accessTokens = new Map<string, MockAccount>();
+  private refreshTokens = new Map<string, MockAccount>();
+  // The authorization each OAuth access and refresh token belongs to
+  private grantTokens = new Map<string, MockAuthorization>();
+  private codes = new Map<string, PendingCode>();
+  private sessions = new Map<string, string>();
+  private baseUrl = '';
+
+  constructor() {
+    this.portalToken = this.issueToken(this.person);
+  }
+
+  get url(): string {
+    return this.baseUrl;
+  }
+
+  get apiBaseUrl(): string {
+    return `${this.baseUrl}/v1`;
+  }
+
+  get portalUrl(): string {
+    return `${this.baseUrl}/docs/getting-started`;
+  }
+
+  environment(): WebexEnvironment {
+    return toEnvironment('mock', { apiBaseUrl: this.apiBaseUrl, portalUrl: this.portalUrl });
+  }
+
+  async start(): Promise<void> {
+    const server = http.createServer((request, response) => {
+      this.handle(request, response).catch(error => {
+        this.json(response, 500, { message: error.message });
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    this.server = server;
+    this.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  }
+
+  // A token the API accepts for this account
+  issueToken(account: MockAccount = this.person): string {
+    const token = mockToken();
+    this.accessTokens.set(token, account);
+    return token;
+  }
+
+  // An OAuth grant whose access and refresh tokens the API and the token endpoint accept;
+  // without an authorization to add them to, the account authorizes the integration anew
+  issueGrant(account: MockAccount = this.person, authorization?: MockAuthorization) {
+    authorization ??= { id: `Y2lzY29zcGFyazovL3VzL0FVVEhPUklaQVRJT04v${crypto.randomUUID()}`, clientId: this.client.clientId, account };
+    const accessToken = this.issueToken(account);
+    const refreshToken = mockToken();
+    this.refreshTokens.set(refreshToken, account);
+    this.grantTokens.set(accessToken, authorization);
+    this.grantTokens.set(refreshToken, authorization);
+    return {
+      access_token: accessToken,
+      expires_in: ACCESS_TOKEN_LIFETIME,
+      refresh_token: refreshToken,
+      refresh_token_expires_in: REFRESH_TOKEN_LIFETIME,
+      token_type: 'Bearer'
+    };
+  }
+
+  accountOf(token: string): MockAccount | undefined {
+    return this.revoked.has(token) ? undefined : this.accessTokens.get(token);
+  }
+
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const url = new URL(request.url || '/', this.baseUrl);
+    const route = `${request.method} ${url.pathname}`;
+    this.requests.push(route);
+
+    const failure = this.failures.get(route)?.shift();
+    if (failure) {
+      this.json(response, failure.status, { message: failure.message || `Mock failure ${failure.status}`, trackingId: failure.trackingId }, failure.headers);
+      return;
+    }
+    if (route === 'GET /v1/people/me') {
+      this.peopleMe(request, response);
+    } else if (route === 'GET /v1/authorize') {
+      this.authorize(url, response);
+    } else if (route === 'POST /v1/access_token') {
+      this.accessToken(new URLSearchParams(await readBody(request)), response);
+    } else if (route === 'GET /v1/authorizations') {
+      this.listAuthorizations(request, url, response);
+    } else if (request.method === 'DELETE' && /^\/v1\/authorizations\/[^/]+$/.test(url.pathname)) {
+      this.deleteAuthorization(request, decodeURIComponent(url.pathname.split('/')[3]), response);
+    } else if (request.method === 'POST' && /^\/v1\/applications\/[^/]+\/token$/.test(url.pathname)) {
+      this.serviceAppToken(request, decodeURIComponent(url.pathname.split('/')[3]), JSON.parse(await readBody(request) || '{}'), response);
+    } else if (route === 'GET /docs/getting-started') {
+      this.html(response, this.portalPage(this.sessionOf(request)));
+    } else if (route === 'GET /login') {
+      this.html(response, LOGIN_PAGE);
+    } else if (route === 'POST /login') {
+      const email = new URLSearchParams(await readBody(request)).get('email') || '';
+      const session = crypto.randomBytes(16).toString('hex');
+      this.sessions.set(session, email);
+      // Persistent, so a kept browser session stays signed in between runs
+      response.writeHead(302, {
+        'Location': '/docs/getting-started',
+        'Set-Cookie': `${SESSION_COOKIE}=${session}; Path=/; Max-Age=3600; HttpOnly`
+      });
+      response.end();
+    } else {
+      this.json(response, 404, { message: `No mock for ${route}` });
+    }
+  }
+
+  private peopleMe(request: http.IncomingMessage, response: http.ServerResponse): void {
+    const token = String(request.headers.authorization || '').replace(/^Bearer\s+/i, '');
+    const account = this.accountOf(token);
+    if (!account) {
+      this.json(response, 401, {
+        message: 'The request requires a valid access token set in the Authorization request header.',
+        trackingId: `MOCK_${crypto.randomUUID()}`
+      });
+      return;
+    }
+    this.json(response, 200, { ...account, licenses: [], roles: [], created: '2020-01-01T00:00:00.000Z' });
+  }
+
+  // Consent is granted at once for the person; the browser is sent straight back with a code
+  private authorize(url: URL, response: http.ServerResponse): void {
+    const redirectUri = url.searchParams.get('redirect_uri') || '';
+    const callback = new URL(redirectUri);
+    callback.searchParams.set('state', url.searchParams.get('state') || '');
+    if (url.searchParams.get('client_id') !== this.client.clientId) {
+      callback.searchParams.set('error', 'invalid_client');
+      callback.searchParams.set('error_description', 'Unknown client_id');
+    } else {
+      const code = crypto.randomBytes(16).toString('hex');
+      this.codes.set(code, { redirectUri, codeChallenge: url.searchParams.get('code_challenge') || '', account: this.person });
+      callback.searchParams.set('code', code);
+    }
+    response.writeHead(302, { Location: callback.toString() });
+    response.end();
+  }
+
+  private accessToken(params: URLSearchParams, response: http.ServerResponse): void {
+    if (params.get('client_id') !== this.client.clientId || params.get('client_secret') !== this.client.clientSecret) {
+      this.json(response, 401, { error: 'invalid_client', error_description: 'Client authentication failed' });
+      return;
+    }
+
+    if (params.get('grant_type') === 'authorization_code') {
+      const pending = this.codes.get(params.get('code') || '');
+      this.codes.delete(params.get('code') || '');
+      const challenge = crypto.createHash('sha256').update(params.get('code_verifier') || '').digest('base64url');
+      if (!pending || pending.redirectUri !== params.get('redirect_uri') || pending.codeChallenge !== challenge) {
+        this.json(response, 400, { error: 'invalid_grant', error_description: 'Invalid authorization code or code_verifier' });
+        return;
+      }
+      this.json(response, 200, this.issueGrant(pending.account));
+    } else if (params.get('grant_type') === 'refresh_token') {
+      const refreshToken = params.get('refresh_token') || '';
+      const account = this.revoked.has(refreshToken) ? undefined : this.refreshTokens.get(refreshToken);
+      if (!account) {
+        this.json(response, 400, { error: 'invalid_grant', error_description: 'The refresh token is invalid or expired' });
+        return;
+      }
+      // Like Webex, the refresh token is kept and not reported again
+      const { refresh_token, refresh_token_expires_in, ...grant } = this.issueGrant(account, this.grantTokens.get(refreshToken));
+      this.refreshTokens.delete(refresh_token);
+      this.json(response, 200, grant);
+    } else {
+      this.json(response, 400, { error: 'unsupported_grant_type', error_description: `Unsupported grant_type ${params.get('grant_type')}` });
+    }
+  }
+
+  // Like for a user without admin rights: only the caller's own authorizations can be listed
+  private listAuthorizations(request: http.IncomingMessage, url: URL, response: http.ServerResponse): void {
+    const account = this.accountOf(String(request.headers.authorization || '').replace(/^Bearer\s+/i, ''));
+    if (!account) {
+      this.json(response, 401, { message: 'The request requires a valid access token set in the Authorization request header.', trackingId: `MOCK_${crypto.randomUUID()}` });
+      return;
+    }
+    if (url.searchParams.get('personId') !== account.id) {
+      this.json(response, 403, { message: 'Only an admin can list the authorizations of other users', trackingId: `MOCK_${crypto.randomUUID()}` });
+      return;
+    }
+    const live = [...this.grantTokens].filter(([token, authorization]) => authorization.account === account && !this.revoked.has(token));
+    const authorizations = new Set(live.map(([, authorization]) => authorization));
+    this.json(response, 200, {
+      items: [...authorizations].map(authorization => ({
+        id: authorization.id,
+        applicationName: 'Mock Integration',
+        clientId: authorization.clientId,
+        orgId: account.orgId,
+        personId: account.id,
+        type: 'refresh',
+        created: '2020-01-01T00:00:00.000Z'
+      }))
+    });
+  }
+
+  // Revokes every token of one of the caller's authorizations
+  private deleteAuthorization(request: http.IncomingMessage, id: string, response: http.ServerResponse): void {
+    const account = this.accountOf(String(request.headers.authorization || '').replace(/^Bearer\s+/i, ''));
+    if (!account) {
+      this.json(response, 401, { message: 'The request requires a valid access token set in the Authorization request header.', trackingId: `MOCK_${crypto.randomUUID()}` });
+      return;
+    }
+    const tokens = [...this.grantTokens].filter(([, authorization]) => authorization.id === id && authorization.account === account);
+    if (tokens.length === 0) {
+      this.json(response, 404, { message: 'Authorization not found', trackingId: `MOCK_${crypto.randomUUID()}` });
+      return;
+    }
+    tokens.forEach(([token]) => this.revoked.add(token));
+    response.writeHead(204);
+    response.end();
+  }
+
+  private serviceAppToken(request: http.IncomingMessage, applicationId: string, body: any, response: http.ServerResponse): void {
+    const owner = this.accountOf(String(request.headers.authorization || '').replace(/^Bearer\s+/i, ''));
+    if (!owner || applicationId !== this.serviceAppId || body.clientId !== this.client.clientId || body.clientSecret !== this.client.clientSecret) {
+      this.json(response, 403, { message: 'The service app is not authorized for this org', trackingId: `MOCK_${crypto.randomUUID()}` });
+      return;
+    }
+    this.json(response, 200, this.issueGrant(this.serviceApp));
+  }
+
+  private sessionOf(request: http.IncomingMessage): string | undefined {
+    const cookie = String(request.headers.cookie || '').split(/;\s*/).find(pair => pair.startsWith(`${SESSION_COOKIE}=`));
+    return cookie ? this.sessions.get(cookie.split('=')[1]) : undefined;
+  }
+
+  // Signed out: a login link. Signed in: the avatar, whose menu opens the token dialog, and an
+  // API call with the token like the real portal makes
+  private portalPage(email?: string): string {
+    if (!email) {
+      return `<!DOCTYPE html><html><body>
+        <header><a id="header-login-link" href="/login">Log in</a></header>
+        <main><h1>Getting Started</h1></main>
+      </body></html>`;
+    }
+    return `<!DOCTYPE html><html><body>
+      <div id="root"><div><header><div><div><div class="md-top-bar__right">
+        <div class="md-top-bar__user"><div class="md-avatar" title="${email}">JD</div></div>
+      </div></div></div></header></div></div>
+      <div id="menu"></div>
+      <div id="dialog"></div>
+      <script>
+        const token = ${JSON.stringify(this.portalToken)};
+        fetch('/v1/people/me', { headers: { Authorization: 'Bearer ' + token } });
+        document.querySelector('.md-avatar').addEventListener('click', () => {
+          document.getElementById('menu').innerHTML = '<button id="copy-token-modal-button">Copy Personal Access Token</button>';
+          document.getElementById('copy-token-modal-button').addEventListener('click', () => {
+            document.getElementById('dialog').innerHTML =
+              '<div id="copy-token-modal"><div class="md-modal__body"><input readonly value="' + token + '"></div>' +
+              '<button id="confirm-copy-button">OK</button></div>';
+            document.getElementById('confirm-copy-button').addEventListener('click', () => {
+              navigator.clipboard.writeText(token).catch(() => {});
+            });
+          });
+        });
+      </script>
+    </body></html>`;
+  }
+
+  private html(response: http.ServerResponse, body: string): void {
+    response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    response.end(body);
+  }
+
+  private json(response: http.ServerResponse, status: number, body: any, headers: Record<string, string> = {}): void {
+    response.writeHead(status, { 'Content-Type': 'application/json', 'TrackingID': body.trackingId || `MOCK_${crypto.randomUUID()}`, ...headers });
+    response.end(JSON.stringify(body));
+  }
+}
+
+const LOGIN_PAGE = `<!DOCTYPE html><html><body>
+  <form method="POST" action="/login">
+    <input id="IDToken1" name="email" type="email">
+    <button id="IDButton2" type="submit">Sign In</button>
+  </form>
+</body></html>`;
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    request.on('data', chunk => {
+      body += chunk;
+    });
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+}
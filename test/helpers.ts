@@ -0,0 +1,47 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { after } from 'node:test';
+import type { TestContext } from 'node:test';
+
+const tempDirs: string[] = [];
+
+// Registered once, when a test file imports the helpers: every test file runs in a process of its own
+after(() => {
+  for (const dir of tempDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+// A config directory of its own for every test, removed after the test file's last test
+export function tempConfigDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'webex-auth-test-'));
+  tempDirs.push(dir);
+  return dir;
+}
+
+let browserCheck: Promise<string | undefined> | undefined;
+
+// Why Chromium cannot be started here, or undefined when it can; browser tests skip with this reason
+export function browserUnavailable(): Promise<string | undefined> {
+  browserCheck ??= (async () => {
+    try {
+      const puppeteer = await import('puppeteer');
+      const browser = await puppeteer.default.launch({ headless: true });
+      await browser.close();
+      return undefined;
+    } catch (error: any) {
+      return `Chromium cannot be launched: ${error.message.split('\n')[0]}`;
+    }
+  })();
+  return browserCheck;
+}
+
+// For tests that need Chromium: skips the test and returns true when it cannot be started
+export async function skipWithoutBrowser(t: TestContext): Promise<boolean> {
+  const reason = await browserUnavailable();
+  if (reason) {
+    t.skip(reason);
+  }
+  return !!reason;
+}
@@ -0,0 +1,153 @@
+import test, { after, before } from 'node:test';
+import * as assert from 'node:assert/strict';
+import axios from 'axios';
+import { TokenManager } from '../src/token-manager';
+import { TokenError, ValidationError, WebexAuthError } from '../src/errors';
+import { Logger, silentLogger } from '../src/logger';
+import { MockWebex, mockToken } from './fixtures/mock-webex';
+import { skipWithoutBrowser, tempConfigDir } from './helpers';
+
+const BROWSER_TEST_TIMEOUT = 120000;
+
+const mock = new MockWebex();
+before(() => mock.start());
+after(() => mock.stop());
+
+function manager(profile: string = 'work', configDir: string = tempConfigDir(), logger: Logger = silentLogger): TokenManager {
+  return new TokenManager({ profile, configDir, environment: mock.environment(), network: {}, logger });
+}
+
+// Plays the user's browser in the OAuth flow: opens the authorization URL the flow prints
+const consentingLogger: Logger = {
+  info: message => {
+    const authorizeUrl = message.trim();
+    if (authorizeUrl.startsWith(`${mock.apiBaseUrl}/authorize?`)) {
+      axios.get(authorizeUrl, { proxy: false }).catch(() => {});
+    }
+  },
+  warn: () => {}
+};
+
+test('OAuth login exchanges the code with PKCE and stores a refreshable token', async () => {
+  const tokens = manager('work', tempConfigDir(), consentingLogger);
+  const result = await tokens.login({ method: 'oauth', ...mock.client, port: 0, openBrowser: false, timeoutMs: 10000 });
+
+  assert.equal(result.type, 'oauth');
+  assert.equal(result.identity?.id, mock.person.id);
+  assert.ok(result.expiresAt > Date.now());
+  const stored = tokens.readStoredToken()!;
+  assert.equal(stored.client?.clientId, mock.client.clientId);
+  assert.equal(stored.client?.tokenUrl, `${mock.apiBaseUrl}/access_token`);
+
+  const refreshed = await tokens.refreshToken();
+  assert.notEqual(refreshed.access_token, stored.accessToken);
+  assert.equal((await tokens.whoami()).id, mock.person.id);
+});
+
+test('OAuth login fails when the authorization is refused', async () => {
+  const tokens = manager('work', tempConfigDir(), consentingLogger);
+  await assert.rejects(
+    tokens.login({ method: 'oauth', clientId: 'Cunknown', clientSecret: 'secret', port: 0, openBrowser: false, timeoutMs: 10000 }),
+    (error: any) => error instanceof ValidationError && /Unknown client_id/.test(error.message)
+  );
+  assert.equal(tokens.readStoredToken(), null);
+});
+
+test('an invalid authorize URL fails as a usage error and leaves no timer behind', async () => {
+  const unhandled: any[] = [];
+  const onUnhandled = (reason: any) => unhandled.push(reason);
+  process.on('unhandledRejection', onUnhandled);
+  try {
+    const tokens = manager();
+    await assert.rejects(
+      tokens.login({ method: 'oauth', ...mock.client, authorizeUrl: 'not a url', port: 0, openBrowser: false, timeoutMs: 200 }),
+      (error: any) => error instanceof WebexAuthError && error.code === 'usage' && /Invalid authorize URL: not a url/.test(error.message)
+    );
+    await new Promise(resolve => setTimeout(resolve, 400));
+    assert.deepEqual(unhandled, []);
+  } finally {
+    process.off('unhandledRejection', onUnhandled);
+  }
+});
+
+test('a token response without an access token is not reported as a network failure', async () => {
+  const tokens = manager('work', tempConfigDir(), consentingLogger);
+  mock.failures.set('POST /v1/access_token', [{ status: 200 }]);
+  await assert.rejects(
+    tokens.login({ method: 'oauth', ...mock.client, port: 0, openBrowser: false, timeoutMs: 10000 }),
+    (error: any) => error instanceof ValidationError && /did not include an access_token/.test(error.message)
+  );
+
+  await tokens.login({ method: 'oauth', ...mock.client, port: 0, openBrowser: false, timeoutMs: 10000 });
+  mock.failures.set('POST /v1/access_token', [{ status: 200 }]);
+  await assert.rejects(tokens.refreshToken(), (error: any) => error instanceof TokenError && error.code === 'refresh_failed');
+});
+
+test('service-app login exchanges the owner\'s token for the app\'s', async () => {
+  const configDir = tempConfigDir();
+  const owner = manager('owner', configDir);
+  await owner.importToken(mock.issueToken(mock.person));
+  const app = manager('provisioning', configDir);
+  const options = { ...mock.client, applicationId: mock.serviceAppId, targetOrgId: mock.person.orgId, authToken: await owner.getToken() };
+
+  const result = await app.login({ method: 'service-app', ...options });
+  assert.equal(result.type, 'service-app');
+  assert.equal(result.identity?.displayName, mock.serviceApp.displayName);
+  assert.deepEqual(app.profiles.readMetadata('provisioning').serviceApp, { applicationId: mock.serviceAppId, targetOrgId: mock.person.orgId });
+  assert.ok(app.readStoredToken()!.refreshExpiresAt > Date.now());
+
+  await assert.rejects(app.login({ method: 'service-app', ...options, applicationId: 'Y2lzotherapp' }), ValidationError);
+});
+
+test('browser login signs in to the portal and captures the token from its API traffic', { timeout: BROWSER_TEST_TIMEOUT }, async t => {
+  if (await skipWithoutBrowser(t)) {
+    return;
+  }
+  const tokens = manager();
+  const result = await tokens.login({ method: 'browser', email: mock.person.emails[0], headless: true });
+
+  assert.equal(result.extractedWith, 'network');
+  assert.equal(result.type, 'pat');
+  assert.equal(result.identity?.id, mock.person.id);
+  assert.equal(tokens.readStoredToken()?.accessToken, mock.portalToken);
+  assert.ok(mock.requests.includes('POST /login'));
+});
+
+test('browser login reads the token from the portal\'s token dialog', { timeout: BROWSER_TEST_TIMEOUT }, async t => {
+  if (await skipWithoutBrowser(t)) {
+    return;
+  }
+  const tokens = manager();
+  const result = await tokens.login({ method: 'browser', email: mock.person.emails[0], headless: true, strategies: ['dom'] });
+
+  assert.equal(result.extractedWith, 'dom');
+  assert.equal(tokens.readStoredToken()?.accessToken, mock.portalToken);
+});
+
+test('a kept browser session skips the sign-in on the next login', { timeout: BROWSER_TEST_TIMEOUT }, async t => {
+  if (await skipWithoutBrowser(t)) {
+    return;
+  }
+  const configDir = tempConfigDir();
+  await manager('work', configDir).login({ method: 'browser', email: mock.person.emails[0], headless: true, keepSession: true });
+
+  const signIns = mock.requests.filter(request => request === 'POST /login').length;
+  const result = await manager('work', configDir).login({ method: 'browser', headless: true, keepSession: true, autofill: false });
+  assert.equal(result.identity?.id, mock.person.id);
+  assert.equal(mock.requests.filter(request => request === 'POST /login').length, signIns);
+});
+
+test('browser login stores nothing when the API rejects the portal\'s token', { timeout: BROWSER_TEST_TIMEOUT }, async t => {
+  if (await skipWithoutBrowser(t)) {
+    return;
+  }
+  const portalToken = mock.portalToken;
+  mock.portalToken = mockToken();
+  t.after(() => {
+    mock.portalToken = portalToken;
+  });
+
+  const tokens = manager();
+  await assert.rejects(tokens.login({ method: 'browser', email: mock.person.emails[0], headless: true, strategies: ['dom'] }), ValidationError);
+  assert.equal(tokens.readStoredToken(), null);
+});
@@ -0,0 +1,38 @@
+import test from 'node:test';
+import * as assert from 'node:assert/strict';
+import { isValidTokenFormat } from '../src/token-extraction';
+
+const PAT = 'YzAwMTQ5NWQtOWM1ZC00ZDg1LTk4MWYtYTEwZTg3MDE2YTE5MjBlNjQ3NTAtYjgz_PF84_1eb65fdf-9643-417f-9974-ad72cae0e10f';
+
+test('accepts a personal access token, with or without a Bearer prefix', () => {
+  assert.equal(isValidTokenFormat(PAT), true);
+  assert.equal(isValidTokenFormat(`Bearer ${PAT}`), true);
+  assert.equal(isValidTokenFormat(`  ${PAT}\n`), true);
+});
+
+test('rejects text that is too short', () => {
+  assert.equal(isValidTokenFormat(PAT.substring(0, 79)), false);
+  assert.equal(isValidTokenFormat(''), false);
+});
+
+test('rejects characters a token cannot contain', () => {
+  assert.equal(isValidTokenFormat(`${PAT} ${PAT}`), false);
+  assert.equal(isValidTokenFormat(`${PAT}.`), false);
+  assert.equal(isValidTokenFormat(`{"access_token":"${PAT}"}`), false);
+});
+
+test('rejects API responses that happen to be token-shaped', () => {
+  assert.equal(isValidTokenFormat(`${PAT}trackingId`), false);
+});
+
+test('rejects placeholders', () => {
+  for (const placeholder of ['xxxxxxxxxx', 'example', 'sample', 'demo', 'test', 'placeholder', 'aaaaaa', '111111', '000000']) {
+    assert.equal(isValidTokenFormat(`${placeholder}${PAT}`), false, placeholder);
+  }
+});
+
+test('needs digits and both cases', () => {
+  assert.equal(isValidTokenFormat(PAT.toLowerCase()), false);
+  assert.equal(isValidTokenFormat(PAT.toUpperCase()), false);
+  assert.equal(isValidTokenFormat(PAT.replace(/\d/g, 'Q')), false);
+});
@@ -0,0 +1,204 @@
+import test, { after, before } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TokenManager } from '../src/token-manager';
+import { TokenExpiredError, TokenNotFoundError, ValidationError } from '../src/errors';
+import { RefreshTokenRejectedError } from '../src/oauth';
+import { MockWebex, mockToken } from './fixtures/mock-webex';
+import { tempConfigDir } from './helpers';
+
+const mock = new MockWebex();
+before(() => mock.start());
+after(() => mock.stop());
+
+function manager(configDir: string = tempConfigDir()): TokenManager {
+  return new TokenManager({ profile: 'work', configDir, environment: mock.environment(), network: {} });
+}
+
+function expireStoredToken(tokens: TokenManager): void {
+  const store = tokens.profiles.openStore(tokens.profile);
+  store.write({ ...store.read(), WEBEX_TOKEN_EXPIRES_AT: String(Date.now() - 1000) });
+}
+
+function oauthToken(expiresIn: number) {
+  const { refresh_token_expires_in, ...grant } = mock.issueGrant();
+  return { ...grant, expires_in: expiresIn };
+}
+
+test('saveToken stores the token owner-only and readStoredToken reads it back', async () => {
+  const configDir = tempConfigDir();
+  const tokens = manager(configDir);
+  const token = mock.issueToken();
+  const before = Date.now();
+  const saved = await tokens.saveToken({ access_token: token, refresh_token: '', expires_in: 3600, token_type: 'Bearer' }, { type: 'pat', quiet: true });
+
+  assert.equal(saved.type, 'pat');
+  assert.equal(saved.store, 'plain');
+  const stored = tokens.readStoredToken()!;
+  assert.equal(stored.accessToken, token);
+  assert.equal(stored.type, 'pat');
+  assert.ok(stored.expiresAt >= before + 3600000 && stored.expiresAt <= Date.now() + 3600000);
+
+  const envFile = path.join(configDir, 'profiles', 'work', '.env');
+  const script = path.join(configDir, 'profiles', 'work', 'webex-env.sh');
+  assert.equal(fs.statSync(envFile).mode & 0o777, 0o600);
+  assert.match(fs.readFileSync(envFile, 'utf8'), new RegExp(`^WEBEX_ACCESS_TOKEN=${token}$`, 'm'));
+  assert.match(fs.readFileSync(script, 'utf8'), new RegExp(`^export WEBEX_ACCESS_TOKEN="${token}"$`, 'm'));
+
+  const lifetime = tokens.describeLifetime(stored);
+  assert.equal(lifetime.expired, false);
+  assert.equal(lifetime.refreshable, false);
+  assert.match(lifetime.renewal, /webex-auth login/);
+  assert.equal(tokens.needsRefresh(stored), false);
+  assert.equal(tokens.needsRefresh(stored, 7200), true);
+});
+
+test('a refresh keeps the identity and the refresh-token expiry recorded at login', async () => {
+  const tokens = manager();
+  const grant = { ...oauthToken(3600), refresh_token_expires_in: 7776000 };
+  await tokens.saveToken(grant, { type: 'oauth', quiet: true });
+  const { refreshExpiresAt } = tokens.readStoredToken()!;
+  assert.ok(refreshExpiresAt > Date.now());
+
+  await tokens.saveToken({ ...grant, access_token: mock.issueToken(), refresh_token_expires_in: undefined }, { quiet: true });
+  const stored = tokens.readStoredToken()!;
+  assert.equal(stored.type, 'oauth');
+  assert.equal(stored.refreshExpiresAt, refreshExpiresAt);
+});
+
+test('importToken validates the token and tells bots from people', async () => {
+  const tokens = manager();
+  const result = await tokens.importToken(mock.issueToken(mock.bot));
+  assert.equal(result.type, 'bot');
+  assert.equal(result.identity?.displayName, mock.bot.displayName);
+  assert.equal(tokens.getCachedIdentity()?.emails[0], mock.bot.emails[0]);
+  assert.equal(tokens.describeLifetime(tokens.readStoredToken()!).expiry, 'Never (bot tokens do not expire)');
+
+  const person = await tokens.importToken(`Bearer ${mock.issueToken(mock.person)}`);
+  assert.equal(person.type, 'pat');
+});
+
+test('importToken stores nothing for malformed or rejected tokens', async () => {
+  const tokens = manager();
+  const calls = mock.requests.length;
+  await assert.rejects(tokens.importToken('not-a-token'), ValidationError);
+  assert.equal(mock.requests.length, calls);
+
+  await assert.rejects(tokens.importToken(mockToken()), ValidationError);
+  assert.equal(tokens.readStoredToken(), null);
+});
+
+test('getToken refreshes an expiring OAuth token', async () => {
+  const tokens = manager();
+  const grant = oauthToken(60);
+  await tokens.saveToken(grant, { type: 'oauth', client: { ...mock.client, tokenUrl: mock.environment().tokenUrl }, quiet: true });
+
+  const fresh = await tokens.getToken();
+  assert.notEqual(fresh, grant.access_token);
+  assert.equal(mock.accountOf(fresh)?.id, mock.person.id);
+  const stored = tokens.readStoredToken()!;
+  assert.equal(stored.accessToken, fresh);
+  // The mock keeps the refresh token without reporting it again
+  assert.equal(stored.refreshToken, grant.refresh_token);
+  assert.equal(await tokens.getToken(), fresh);
+});
+
+test('a rejected refresh token and an expired personal token fail with their own errors', async () => {
+  const oauth = manager();
+  await oauth.saveToken({ access_token: mock.issueToken(), refresh_token: mockToken(), expires_in: 1, token_type: 'Bearer' }, {
+    type: 'oauth',
+    client: { ...mock.client, tokenUrl: mock.environment().tokenUrl },
+    quiet: true
+  });
+  await assert.rejects(oauth.getToken(), RefreshTokenRejectedError);
+
+  const pat = manager();
+  await pat.saveToken({ access_token: mock.issueToken(), refresh_token: '', expires_in: 1, token_type: 'Bearer' }, { type: 'pat', quiet: true });
+  expireStoredToken(pat);
+  await assert.rejects(pat.getToken(), TokenExpiredError);
+  await assert.rejects(manager().getToken(), TokenNotFoundError);
+});
+
+test('a token inside the refresh margin is still returned when it may not be refreshed', async () => {
+  const tokens = manager();
+  const grant = oauthToken(60);
+  await tokens.saveToken(grant, { type: 'oauth', client: { ...mock.client, tokenUrl: mock.environment().tokenUrl }, quiet: true });
+  assert.equal(await tokens.getToken({ refresh: false }), grant.access_token);
+
+  expireStoredToken(tokens);
+  await assert.rejects(tokens.getToken({ refresh: false }), /has expired and refreshing was disabled/);
+});
+
+test('whoami looks the account up and rejects revoked tokens', async () => {
+  const tokens = manager();
+  const token = mock.issueToken();
+  await tokens.saveToken({ access_token: token, refresh_token: '', expires_in: 0, token_type: 'Bearer' }, { type: 'pat', quiet: true });
+  assert.equal((await tokens.whoami()).displayName, mock.person.displayName);
+
+  mock.revoked.add(token);
+  await assert.rejects(tokens.whoami(), ValidationError);
+});
+
+test('logout revokes OAuth tokens at the server and deletes the local copies', async () => {
+  const tokens = manager();
+  const grant = oauthToken(3600);
+  await tokens.saveToken(grant, { type: 'oauth', client: { ...mock.client, tokenUrl: mock.environment().tokenUrl }, quiet: true });
+
+  // Another user in the org who authorized the same integration stays signed in
+  const colleague = mock.issueGrant(mock.bot);
+
+  const result = await tokens.logout();
+  assert.equal(result.revocation, 'revoked', result.revocationError);
+  assert.ok(mock.revoked.has(grant.access_token));
+  assert.ok(mock.revoked.has(grant.refresh_token));
+  assert.equal(mock.revoked.has(colleague.access_token) || mock.revoked.has(colleague.refresh_token), false);
+  assert.equal(tokens.readStoredToken(), null);
+  assert.equal(tokens.getCachedIdentity(), undefined);
+});
+
+test('logout renews an expired access token to authenticate the revocation', async () => {
+  const tokens = manager();
+  const grant = oauthToken(3600);
+  await tokens.saveToken(grant, { type: 'oauth', client: { ...mock.client, tokenUrl: mock.environment().tokenUrl }, quiet: true });
+  expireStoredToken(tokens);
+
+  const result = await tokens.logout();
+  assert.equal(result.revocation, 'revoked', result.revocationError);
+  assert.ok(mock.revoked.has(grant.refresh_token));
+  const [renew, identity, list, remove] = mock.requests.slice(-4);
+  assert.deepEqual([renew, identity, list], ['POST /v1/access_token', 'GET /v1/people/me', 'GET /v1/authorizations']);
+  assert.match(remove, /^DELETE \/v1\/authorizations\/[^/]+$/);
+});
+
+test('the audit log records the lifecycle by fingerprint only', async () => {
+  const configDir = tempConfigDir();
+  const tokens = manager(configDir);
+  const first = mock.issueToken();
+  const second = mock.issueToken();
+  await tokens.importToken(first);
+  await tokens.importToken(second);
+  await tokens.whoami();
+  await assert.rejects(tokens.login({ method: 'import', token: mockToken() }), ValidationError);
+  await tokens.logout();
+
+  const events = tokens.audit.read();
+  assert.deepEqual(events.map(event => `${event.event}:${event.result}`), [
+    'login:success',
+    'overwrite:success',
+    'login:success',
+    'validate:success',
+    'login:failure',
+    'logout:success'
+  ]);
+  assert.equal(events[0].source, 'import');
+  assert.equal(events[0].identity?.email, mock.person.emails[0]);
+  assert.equal(events[1].fingerprint, events[0].fingerprint);
+  assert.equal(events[1].detail, `replaced by ${events[2].fingerprint}`);
+  assert.equal(events[4].error?.code, 'validation_failed');
+  assert.deepEqual(tokens.audit.read({ event: 'validate' }).map(event => event.environment), ['mock']);
+
+  const log = fs.readFileSync(tokens.audit.path, 'utf8');
+  assert.equal(log.includes(first) || log.includes(second), false);
+  assert.equal(fs.statSync(tokens.audit.path).mode & 0o777, 0o600);
+});
@@ -0,0 +1,100 @@
+import test, { after, before } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { WebexApiError, createWebexClient } from '../src/webex-client';
+import { TokenManager } from '../src/token-manager';
+import { Logger } from '../src/logger';
+import { MockWebex } from './fixtures/mock-webex';
+import { tempConfigDir } from './helpers';
+
+const mock = new MockWebex();
+before(() => mock.start());
+after(() => mock.stop());
+
+function recordingLogger(): Logger & { lines: string[] } {
+  const lines: string[] = [];
+  return { lines, info: message => lines.push(message), warn: message => lines.push(message) };
+}
+
+async function personalTokens(): Promise<TokenManager> {
+  const tokens = new TokenManager({ profile: 'work', configDir: tempConfigDir(), environment: mock.environment(), network: {} });
+  await tokens.saveToken({ access_token: mock.issueToken(), refresh_token: '', expires_in: 0, token_type: 'Bearer' }, { type: 'pat', quiet: true });
+  return tokens;
+}
+
+function callsTo(route: string): number {
+  return mock.requests.filter(request => request === route).length;
+}
+
+test('a 401 refreshes the OAuth token once and retries with the new one', async () => {
+  const tokens = new TokenManager({ profile: 'work', configDir: tempConfigDir(), environment: mock.environment(), network: {} });
+  const grant = mock.issueGrant();
+  await tokens.saveToken(grant, { type: 'oauth', client: { ...mock.client, tokenUrl: mock.environment().tokenUrl }, quiet: true });
+  mock.revoked.add(grant.access_token);
+
+  const client = createWebexClient({ tokenManager: tokens });
+  const response = await client.get('/people/me');
+  assert.equal(response.data.displayName, mock.person.displayName);
+  const renewed = tokens.readStoredToken()!.accessToken;
+  assert.notEqual(renewed, grant.access_token);
+  assert.equal(response.config.headers.Authorization, `Bearer ${renewed}`);
+
+  // Without a refresh token, a rejected token fails at once
+  const pat = await personalTokens();
+  mock.revoked.add(pat.readStoredToken()!.accessToken);
+  const refreshes = callsTo('POST /v1/access_token');
+  await assert.rejects(createWebexClient({ tokenManager: pat }).get('/people/me'), (error: any) => {
+    return error instanceof WebexApiError && error.status === 401 && error.code === 'validation_failed';
+  });
+  assert.equal(callsTo('POST /v1/access_token'), refreshes);
+});
+
+test('429 responses wait for Retry-After, and too long a wait fails at once', async () => {
+  const logger = recordingLogger();
+  const client = createWebexClient({ tokenManager: await personalTokens(), maxRetryAfterMs: 2000, logger });
+
+  mock.failures.set('GET /v1/people/me', [{ status: 429, headers: { 'Retry-After': '1' } }]);
+  const started = Date.now();
+  assert.equal((await client.get('/people/me')).status, 200);
+  assert.ok(Date.now() - started >= 1000, 'answered before Retry-After passed');
+  assert.deepEqual(logger.lines, ['⏳ 429 from GET /people/me - retry 1/3 in 1.0s']);
+
+  mock.failures.set('GET /v1/people/me', [{ status: 429, headers: { 'Retry-After': '30' } }]);
+  await assert.rejects(client.get('/people/me'), /Retry-After of 30s exceeds the limit of 2s/);
+});
+
+test('5xx responses back off exponentially on idempotent requests only', async () => {
+  const logger = recordingLogger();
+  const client = createWebexClient({ tokenManager: await personalTokens(), retryDelayMs: 200, maxRetries: 2, logger });
+
+  mock.failures.set('GET /v1/people/me', [{ status: 503 }, { status: 502 }]);
+  assert.equal((await client.get('/people/me')).status, 200);
+  assert.deepEqual(logger.lines, [
+    '⏳ 503 from GET /people/me - retry 1/2 in 0.2s',
+    '⏳ 502 from GET /people/me - retry 2/2 in 0.4s'
+  ]);
+
+  mock.failures.set('GET /v1/people/me', [{ status: 500 }, { status: 500 }, { status: 500 }]);
+  await assert.rejects(client.get('/people/me'), (error: any) => error instanceof WebexApiError && error.status === 500);
+  assert.equal(mock.failures.get('GET /v1/people/me')!.length, 0);
+
+  // The message may have been sent although the server failed
+  mock.failures.set('POST /v1/messages', [{ status: 500 }]);
+  const sent = callsTo('POST /v1/messages');
+  await assert.rejects(client.post('/messages', { text: 'hello' }), WebexApiError);
+  assert.equal(callsTo('POST /v1/messages'), sent + 1);
+});
+
+test('API errors carry the status, the message and the trackingId', async () => {
+  const client = createWebexClient({ tokenManager: await personalTokens() });
+  mock.failures.set('GET /v1/rooms/missing', [{ status: 404, message: 'Could not find a room with provided ID.', trackingId: 'ROUTER_MOCK_1234' }]);
+
+  await assert.rejects(client.get('/rooms/missing'), (error: any) => {
+    assert.ok(error instanceof WebexApiError);
+    assert.equal(error.status, 404);
+    assert.equal(error.trackingId, 'ROUTER_MOCK_1234');
+    assert.equal(error.method, 'GET');
+    assert.equal(error.url, `${mock.apiBaseUrl}/rooms/missing`);
+    assert.match(error.message, /failed with 404: Could not find a room with provided ID\. \(trackingId ROUTER_MOCK_1234\)/);
+    return true;
+  });
+});